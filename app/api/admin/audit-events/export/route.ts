@@ -0,0 +1,37 @@
+import { audit, exportAuditEvents } from '@/lib/audit';
+import { createHandler } from '@/lib/handler';
+import { auditEventExportQuerySchema } from '@/lib/validations';
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/jsonl; charset=utf-8',
+} as const;
+
+export const GET = createHandler(
+  {
+    route: '/api/admin/audit-events/export',
+    operationId: 'exportAuditEvents',
+    summary: 'Download audit events as CSV or JSON Lines, oldest first',
+    query: auditEventExportQuerySchema,
+    auth: 'audit:read',
+    rateLimit: 'auditExport',
+  },
+  async ({ query: { format, ...filters }, session }) => {
+    // Reading the log is itself worth a record, an export copies it out of reach
+    await audit.record({
+      action: 'audit.export',
+      actorId: session.userId,
+      metadata: { format, filters },
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new Response(exportAuditEvents(filters, format), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="audit-events-${date}.${format}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  }
+);
@@ -0,0 +1,16 @@
+import { listAuditEvents } from '@/lib/audit';
+import { createHandler } from '@/lib/handler';
+import { auditEventListResponseSchema } from '@/lib/responses';
+import { auditEventQuerySchema } from '@/lib/validations';
+
+export const GET = createHandler(
+  {
+    route: '/api/admin/audit-events',
+    operationId: 'listAuditEvents',
+    summary: 'List audit events, newest first',
+    query: auditEventQuerySchema,
+    response: auditEventListResponseSchema,
+    auth: 'audit:read',
+  },
+  async ({ query: { cursor, limit, ...filters } }) => listAuditEvents(filters, { cursor, limit })
+);
@@ -0,0 +1,49 @@
+import { fieldError, HttpError } from '@/lib/api';
+import { audit } from '@/lib/audit';
+import { createHandler } from '@/lib/handler';
+import { successResponseSchema } from '@/lib/responses';
+import { revokeUserSessions } from '@/lib/sessions';
+import { issueAuthTokens } from '@/lib/tokens';
+import { UserError, userService } from '@/lib/userService';
+import { getUserAuthorization } from '@/lib/users';
+import { changePasswordSchema } from '@/lib/validations';
+
+export const POST = createHandler(
+  {
+    route: '/api/auth/change-password',
+    operationId: 'changePassword',
+    summary: 'Change the password and sign out other devices',
+    body: changePasswordSchema,
+    response: successResponseSchema,
+    auth: true,
+    rateLimit: 'changePassword',
+  },
+  async ({ body: { currentPassword, newPassword }, session }) => {
+    const user = await userService
+      .changePassword(Number(session.userId), currentPassword, newPassword)
+      .catch((error) => {
+        if (!(error instanceof UserError)) throw error;
+
+        if (error.code === 'invalid_password') {
+          throw new HttpError(400, error.message, {
+            errors: fieldError('currentPassword', error.message),
+          });
+        }
+
+        throw new HttpError(401, 'Unauthorized');
+      });
+
+    // Every other device is signed out, this one continues in a fresh session
+    await revokeUserSessions(user.id);
+
+    await audit.record({ action: 'auth.password_change', actorId: user.id });
+
+    await issueAuthTokens({
+      userId: String(user.id),
+      email: user.email,
+      ...(await getUserAuthorization(user.id)),
+    });
+
+    return { success: true as const };
+  }
+);
@@ -0,0 +1,23 @@
+import { cookies } from 'next/headers';
+import { HttpError } from '@/lib/api';
+import { CSRF_CONFIG } from '@/lib/constants';
+import { createHandler } from '@/lib/handler';
+import { csrfTokenResponseSchema } from '@/lib/responses';
+
+// Same-origin pages read the cookie directly, approved cross-origin clients can't and ask here
+export const GET = createHandler(
+  {
+    route: '/api/auth/csrf',
+    operationId: 'getCsrfToken',
+    summary: 'Get the CSRF token to send with state-changing requests',
+    response: csrfTokenResponseSchema,
+  },
+  async () => {
+    // middleware.ts issues a token to every request that arrives without a valid one
+    const csrfToken = (await cookies()).get(CSRF_CONFIG.COOKIE_NAME)?.value;
+
+    if (!csrfToken) throw new HttpError(500, 'No CSRF token was issued');
+
+    return { csrfToken };
+  }
+);
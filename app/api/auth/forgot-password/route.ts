@@ -0,0 +1,38 @@
+import { after } from 'next/server';
+import { audit } from '@/lib/audit';
+import { createHandler } from '@/lib/handler';
+import { successResponseSchema } from '@/lib/responses';
+import { captureException } from '@/lib/sentry';
+import { findUserByEmail } from '@/lib/users';
+import { forgotPasswordSchema } from '@/lib/validations';
+import { sendPasswordResetEmail } from '@/lib/verification';
+
+export const POST = createHandler(
+  {
+    route: '/api/auth/forgot-password',
+    operationId: 'forgotPassword',
+    summary: 'Email a password reset link',
+    body: forgotPasswordSchema,
+    response: successResponseSchema,
+    rateLimit: { name: 'forgotPassword', identity: ({ body }) => ({ email: body.email }) },
+  },
+  async ({ body }) => {
+    const user = await findUserByEmail(body.email);
+
+    // Sent once the response is out, so neither the SMTP round trip nor a mail server failure
+    // tells a registered email from an unknown one
+    if (user) {
+      after(async () => {
+        try {
+          await sendPasswordResetEmail(user);
+          await audit.record({ action: 'auth.password_reset_request', actorId: user.id });
+        } catch (error) {
+          captureException(error as Error, { operation: 'password-reset-email' });
+        }
+      });
+    }
+
+    // Always succeed so the endpoint can't be used to discover registered emails
+    return { success: true as const };
+  }
+);
@@ -0,0 +1,83 @@
+import { HttpError } from '@/lib/api';
+import { audit } from '@/lib/audit';
+import { generateMfaToken, verifyPassword } from '@/lib/auth';
+import { createHandler } from '@/lib/handler';
+import { isTotpEnabled } from '@/lib/mfa';
+import { loginResponseSchema } from '@/lib/responses';
+import { issueAuthTokens } from '@/lib/tokens';
+import {
+  findUserByEmail,
+  getLockRemainingMs,
+  getUserAuthorization,
+  recordFailedLogin,
+  recordSuccessfulLogin,
+  toAuthUser,
+} from '@/lib/users';
+import { loginSchema } from '@/lib/validations';
+
+export const POST = createHandler(
+  {
+    route: '/api/auth/login',
+    operationId: 'login',
+    summary: 'Sign in with email and password',
+    body: loginSchema,
+    response: loginResponseSchema,
+    rateLimit: { name: 'login', identity: ({ body }) => ({ email: body.email }) },
+  },
+  async ({ body: { email, password } }) => {
+    const user = await findUserByEmail(email);
+
+    // Checked for unknown emails too, against a dummy hash, so timing doesn't tell them apart
+    const passwordMatches = await verifyPassword(password, user?.password);
+
+    // Same response for unknown email, wrong password and a locked account to avoid account
+    // enumeration. Only existing accounts lock, the login rate limit covers every email.
+    if (user && getLockRemainingMs(user) > 0) {
+      await audit.record({
+        action: 'auth.login_failed',
+        actorId: user.id,
+        metadata: { email, reason: 'locked' },
+      });
+
+      throw new HttpError(401, 'Invalid email or password');
+    }
+
+    if (!user || !passwordMatches) {
+      if (user) await recordFailedLogin(user.id);
+
+      await audit.record({
+        action: 'auth.login_failed',
+        actorId: user?.id,
+        metadata: { email, reason: 'invalid_credentials' },
+      });
+
+      throw new HttpError(401, 'Invalid email or password');
+    }
+
+    // No cookies yet, the client trades this token and a code at /api/auth/mfa/verify
+    if (isTotpEnabled(user)) {
+      const mfaToken = await generateMfaToken({ userId: String(user.id) });
+
+      return { mfaRequired: true as const, mfaToken };
+    }
+
+    const loggedIn = await recordSuccessfulLogin(user.id);
+
+    const authorization = await getUserAuthorization(user.id);
+
+    const sessionId = await issueAuthTokens({
+      userId: String(user.id),
+      email: user.email,
+      ...authorization,
+    });
+
+    await audit.record({
+      action: 'auth.login',
+      actorId: user.id,
+      target: { type: 'session', id: sessionId },
+      metadata: { method: 'password' },
+    });
+
+    return { user: toAuthUser(loggedIn, authorization) };
+  }
+);
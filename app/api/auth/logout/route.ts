@@ -0,0 +1,34 @@
+import { audit } from '@/lib/audit';
+import { clearAuthCookies, getRefreshToken } from '@/lib/auth';
+import { createHandler } from '@/lib/handler';
+import { successResponseSchema } from '@/lib/responses';
+import { revokeRefreshTokenFamily } from '@/lib/tokens';
+
+export const POST = createHandler(
+  {
+    route: '/api/auth/logout',
+    operationId: 'logout',
+    summary: 'Sign out and revoke the current session',
+    response: successResponseSchema,
+  },
+  async ({ session }) => {
+    const refreshToken = await getRefreshToken();
+
+    try {
+      if (refreshToken) await revokeRefreshTokenFamily(refreshToken);
+    } finally {
+      // Signed out locally even when revoking fails
+      await clearAuthCookies();
+    }
+
+    if (session) {
+      await audit.record({
+        action: 'auth.logout',
+        actorId: session.userId,
+        target: { type: 'session', id: session.sessionId },
+      });
+    }
+
+    return { success: true as const };
+  }
+);
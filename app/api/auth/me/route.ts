@@ -0,0 +1,21 @@
+import { HttpError } from '@/lib/api';
+import { createHandler } from '@/lib/handler';
+import { userResponseSchema } from '@/lib/responses';
+import { findUserById, getUserAuthorization, toAuthUser } from '@/lib/users';
+
+export const GET = createHandler(
+  {
+    route: '/api/auth/me',
+    operationId: 'getCurrentUser',
+    summary: 'Get the signed-in user',
+    response: userResponseSchema,
+    auth: true,
+  },
+  async ({ session }) => {
+    const user = await findUserById(session.userId);
+
+    if (!user) throw new HttpError(401, 'Unauthorized');
+
+    return { user: toAuthUser(user, await getUserAuthorization(user.id)) };
+  }
+);
@@ -0,0 +1,39 @@
+import { fieldError, HttpError } from '@/lib/api';
+import { audit } from '@/lib/audit';
+import { db } from '@/lib/db';
+import { createHandler } from '@/lib/handler';
+import { isTotpEnabled, regenerateRecoveryCodes, verifySecondFactor } from '@/lib/mfa';
+import { recoveryCodesResponseSchema } from '@/lib/responses';
+import { findUserById } from '@/lib/users';
+import { mfaCodeSchema } from '@/lib/validations';
+
+// Replaces every outstanding recovery code, e.g. after the last few have been used up
+export const POST = createHandler(
+  {
+    route: '/api/auth/mfa/recovery-codes',
+    operationId: 'regenerateRecoveryCodes',
+    summary: 'Replace every recovery code',
+    body: mfaCodeSchema,
+    response: recoveryCodesResponseSchema,
+    auth: true,
+    rateLimit: 'mfaManage',
+  },
+  async ({ body, session }) => {
+    const user = await findUserById(session.userId);
+
+    if (!user) throw new HttpError(401, 'Unauthorized');
+
+    if (!isTotpEnabled(user)) throw new HttpError(409, 'Two-factor authentication is not enabled');
+
+    if (!(await verifySecondFactor(user, body.code))) {
+      const message = 'Invalid authentication code';
+      throw new HttpError(400, message, { errors: fieldError('code', message) });
+    }
+
+    const recoveryCodes = await db.transaction((tx) => regenerateRecoveryCodes(user.id, tx));
+
+    await audit.record({ action: 'auth.recovery_codes_regenerate', actorId: user.id });
+
+    return { recoveryCodes };
+  }
+);
@@ -0,0 +1,38 @@
+import { fieldError, HttpError } from '@/lib/api';
+import { audit } from '@/lib/audit';
+import { createHandler } from '@/lib/handler';
+import { disableTotp, isTotpEnabled, verifySecondFactor } from '@/lib/mfa';
+import { successResponseSchema } from '@/lib/responses';
+import { findUserById } from '@/lib/users';
+import { mfaCodeSchema } from '@/lib/validations';
+
+// Needs a current code so a hijacked session alone can't strip the second factor
+export const POST = createHandler(
+  {
+    route: '/api/auth/mfa/totp/disable',
+    operationId: 'disableTotp',
+    summary: 'Turn off TOTP',
+    body: mfaCodeSchema,
+    response: successResponseSchema,
+    auth: true,
+    rateLimit: 'mfaManage',
+  },
+  async ({ body, session }) => {
+    const user = await findUserById(session.userId);
+
+    if (!user) throw new HttpError(401, 'Unauthorized');
+
+    if (!isTotpEnabled(user)) throw new HttpError(409, 'Two-factor authentication is not enabled');
+
+    if (!(await verifySecondFactor(user, body.code))) {
+      const message = 'Invalid authentication code';
+      throw new HttpError(400, message, { errors: fieldError('code', message) });
+    }
+
+    await disableTotp(user.id);
+
+    await audit.record({ action: 'auth.mfa_disable', actorId: user.id });
+
+    return { success: true as const };
+  }
+);
@@ -0,0 +1,44 @@
+import { fieldError, HttpError } from '@/lib/api';
+import { audit } from '@/lib/audit';
+import { createHandler } from '@/lib/handler';
+import { enableTotp, isTotpEnabled } from '@/lib/mfa';
+import { recoveryCodesResponseSchema } from '@/lib/responses';
+import { findUserById } from '@/lib/users';
+import { mfaCodeSchema } from '@/lib/validations';
+
+export const POST = createHandler(
+  {
+    route: '/api/auth/mfa/totp/enable',
+    operationId: 'enableTotp',
+    summary: 'Confirm TOTP enrollment and get recovery codes',
+    body: mfaCodeSchema,
+    response: recoveryCodesResponseSchema,
+    auth: true,
+    rateLimit: 'mfaManage',
+  },
+  async ({ body, session }) => {
+    const user = await findUserById(session.userId);
+
+    if (!user) throw new HttpError(401, 'Unauthorized');
+
+    if (isTotpEnabled(user)) {
+      throw new HttpError(409, 'Two-factor authentication is already enabled');
+    }
+
+    if (!user.totpSecret) {
+      throw new HttpError(400, 'Start two-factor setup before confirming it');
+    }
+
+    const recoveryCodes = await enableTotp(user, body.code);
+
+    if (!recoveryCodes) {
+      const message = 'Invalid authentication code';
+      throw new HttpError(400, message, { errors: fieldError('code', message) });
+    }
+
+    await audit.record({ action: 'auth.mfa_enable', actorId: user.id });
+
+    // Shown once, only their hashes are stored
+    return { recoveryCodes };
+  }
+);
@@ -0,0 +1,28 @@
+import { HttpError } from '@/lib/api';
+import { createHandler } from '@/lib/handler';
+import { beginTotpEnrollment, isTotpEnabled } from '@/lib/mfa';
+import { totpEnrollmentResponseSchema } from '@/lib/responses';
+import { findUserById } from '@/lib/users';
+
+// Issues a fresh secret, nothing is enforced until it is confirmed at /api/auth/mfa/totp/enable
+export const POST = createHandler(
+  {
+    route: '/api/auth/mfa/totp/setup',
+    operationId: 'setupTotp',
+    summary: 'Start TOTP enrollment',
+    response: totpEnrollmentResponseSchema,
+    auth: true,
+    rateLimit: 'mfaManage',
+  },
+  async ({ session }) => {
+    const user = await findUserById(session.userId);
+
+    if (!user) throw new HttpError(401, 'Unauthorized');
+
+    if (isTotpEnabled(user)) {
+      throw new HttpError(409, 'Two-factor authentication is already enabled');
+    }
+
+    return beginTotpEnrollment(user);
+  }
+);
@@ -0,0 +1,90 @@
+import { fieldError, HttpError } from '@/lib/api';
+import { audit } from '@/lib/audit';
+import { verifyMfaToken } from '@/lib/auth';
+import { createHandler } from '@/lib/handler';
+import { verifySecondFactor } from '@/lib/mfa';
+import { userResponseSchema } from '@/lib/responses';
+import { issueAuthTokens } from '@/lib/tokens';
+import {
+  findUserById,
+  getLockRemainingMs,
+  getUserAuthorization,
+  recordFailedLogin,
+  recordSuccessfulLogin,
+  toAuthUser,
+} from '@/lib/users';
+import { mfaVerifySchema } from '@/lib/validations';
+
+const EXPIRED_MESSAGE = 'Your sign-in attempt has expired. Please sign in again.';
+
+// Second step of a login that returned `mfaRequired`, only here are the auth cookies issued
+export const POST = createHandler(
+  {
+    route: '/api/auth/mfa/verify',
+    operationId: 'verifyMfa',
+    summary: 'Finish a sign-in with a TOTP or recovery code',
+    body: mfaVerifySchema,
+    response: userResponseSchema,
+    rateLimit: {
+      name: 'mfaVerify',
+      // There is no session yet, the user is the one the mfa token was issued to
+      identity: async ({ body }) => ({ userId: (await verifyMfaToken(body.mfaToken))?.userId }),
+    },
+  },
+  async ({ body: { mfaToken, code } }) => {
+    const payload = await verifyMfaToken(mfaToken);
+
+    const user = payload ? await findUserById(payload.userId) : undefined;
+
+    if (!user) throw new HttpError(401, EXPIRED_MESSAGE);
+
+    const lockRemainingMs = getLockRemainingMs(user);
+
+    if (lockRemainingMs > 0) {
+      await audit.record({
+        action: 'auth.login_failed',
+        actorId: user.id,
+        metadata: { reason: 'locked' },
+      });
+
+      throw new HttpError(
+        423,
+        'Account temporarily locked after too many failed attempts. Please try again later.',
+        { headers: { 'Retry-After': String(Math.ceil(lockRemainingMs / 1000)) } }
+      );
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    if (!(await verifySecondFactor(user, code))) {
+      await recordFailedLogin(user.id);
+
+      await audit.record({
+        action: 'auth.login_failed',
+        actorId: user.id,
+        metadata: { reason: 'invalid_code' },
+      });
+
+      const message = 'Invalid authentication code';
+      throw new HttpError(401, message, { errors: fieldError('code', message) });
+    }
+
+    const loggedIn = await recordSuccessfulLogin(user.id);
+
+    const authorization = await getUserAuthorization(user.id);
+
+    const sessionId = await issueAuthTokens({
+      userId: String(user.id),
+      email: user.email,
+      ...authorization,
+    });
+
+    await audit.record({
+      action: 'auth.login',
+      actorId: user.id,
+      target: { type: 'session', id: sessionId },
+      metadata: { method: 'mfa' },
+    });
+
+    return { user: toAuthUser(loggedIn, authorization) };
+  }
+);
@@ -0,0 +1,105 @@
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { audit } from '@/lib/audit';
+import { generateMfaToken } from '@/lib/auth';
+import { APP_CONFIG } from '@/lib/config';
+import { isTotpEnabled } from '@/lib/mfa';
+import {
+  decodePendingAuthorization,
+  getOAuthProvider,
+  getOAuthRedirectUri,
+  OAUTH_STATE_COOKIE,
+  OAuthError,
+} from '@/lib/oauth';
+import { ROUTES } from '@/lib/routes';
+import { trackApiError, trackAuthError } from '@/lib/sentry';
+import { issueAuthTokens } from '@/lib/tokens';
+import { findOrCreateOAuthUser, getUserAuthorization, recordSuccessfulLogin } from '@/lib/users';
+
+interface Context {
+  params: Promise<{ provider: string }>;
+}
+
+function failureRedirect(reason: string) {
+  const loginUrl = new URL(ROUTES.LOGIN, APP_CONFIG.URL);
+  loginUrl.searchParams.set('error', reason);
+
+  const response = NextResponse.redirect(loginUrl);
+  response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: '/api/auth/oauth' });
+
+  return response;
+}
+
+export async function GET(request: Request, context: Context) {
+  const { provider: providerId } = await context.params;
+  const provider = getOAuthProvider(providerId);
+  const { searchParams } = new URL(request.url);
+
+  const cookieStore = await cookies();
+  const pending = decodePendingAuthorization(cookieStore.get(OAUTH_STATE_COOKIE)?.value);
+
+  const code = searchParams.get('code');
+  const state = searchParams.get('state');
+
+  if (!provider || searchParams.has('error')) return failureRedirect('oauth_denied');
+
+  if (!pending || !code || pending.provider !== provider.id || pending.state !== state) {
+    trackAuthError(new Error('OAuth state mismatch'), undefined, `oauth:${providerId}`);
+    return failureRedirect('oauth_state');
+  }
+
+  try {
+    const profile = await provider.exchangeCode({
+      code,
+      redirectUri: getOAuthRedirectUri(provider.id),
+      codeVerifier: pending.codeVerifier,
+      nonce: pending.nonce,
+    });
+
+    const user = await findOrCreateOAuthUser(provider.id, profile);
+
+    // The provider only stands in for the password, an enrolled second factor still applies.
+    // The token travels in the fragment so it never reaches server logs or Referer headers.
+    if (isTotpEnabled(user)) {
+      const mfaUrl = new URL(ROUTES.LOGIN, APP_CONFIG.URL);
+      mfaUrl.searchParams.set('redirect', pending.redirect);
+      mfaUrl.hash = new URLSearchParams({
+        mfaToken: await generateMfaToken({ userId: String(user.id) }),
+      }).toString();
+
+      const response = NextResponse.redirect(mfaUrl);
+      response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: '/api/auth/oauth' });
+
+      return response;
+    }
+
+    await recordSuccessfulLogin(user.id);
+
+    const sessionId = await issueAuthTokens({
+      userId: String(user.id),
+      email: user.email,
+      ...(await getUserAuthorization(user.id)),
+    });
+
+    await audit.record({
+      action: 'auth.login',
+      actorId: user.id,
+      target: { type: 'session', id: sessionId },
+      metadata: { method: 'oauth', provider: provider.id },
+    });
+
+    const response = NextResponse.redirect(new URL(pending.redirect, APP_CONFIG.URL));
+    response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: '/api/auth/oauth' });
+
+    return response;
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      trackAuthError(error, undefined, `oauth:${provider.id}`);
+      return failureRedirect('oauth_account');
+    }
+
+    trackApiError(error as Error, `/api/auth/oauth/${provider.id}/callback`, 'GET');
+
+    return failureRedirect('oauth_failed');
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { HttpError } from '@/lib/api';
+import { createHandler } from '@/lib/handler';
+import {
+  createAuthorizationRequest,
+  encodePendingAuthorization,
+  getOAuthProvider,
+  OAUTH_STATE_COOKIE,
+} from '@/lib/oauth';
+import { getSafeRedirectPath, ROUTES } from '@/lib/routes';
+import { trackApiError } from '@/lib/sentry';
+
+export const GET = createHandler(
+  {
+    route: '/api/auth/oauth/{provider}',
+    operationId: 'startOAuth',
+    summary: 'Redirect to the OAuth provider',
+    params: z.object({ provider: z.string() }),
+    query: z.object({ redirect: z.string().optional() }),
+    status: 302,
+  },
+  async ({ params, query }) => {
+    const provider = getOAuthProvider(params.provider);
+
+    if (!provider) throw new HttpError(404, 'Unknown OAuth provider');
+
+    const { url, state, nonce, codeVerifier } = await createAuthorizationRequest(provider).catch(
+      (error: Error) => {
+        // The provider's discovery endpoint is down or misconfigured, not a bug on our side
+        trackApiError(error, `/api/auth/oauth/${provider.id}`, 'GET');
+        throw new HttpError(502, 'Could not start sign-in');
+      }
+    );
+
+    const redirect = getSafeRedirectPath(query.redirect, ROUTES.DASHBOARD);
+
+    const response = NextResponse.redirect(url);
+
+    // Only the browser that started the flow holds the verifier, state and nonce
+    response.cookies.set(
+      OAUTH_STATE_COOKIE,
+      encodePendingAuthorization({ provider: provider.id, state, nonce, codeVerifier, redirect }),
+      {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        path: '/api/auth/oauth',
+        maxAge: 10 * 60,
+      }
+    );
+
+    return response;
+  }
+);
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { HttpError } from '@/lib/api';
+import { audit } from '@/lib/audit';
+import { createHandler } from '@/lib/handler';
+import { deletePasskey } from '@/lib/passkeys';
+import { successResponseSchema } from '@/lib/responses';
+
+export const DELETE = createHandler(
+  {
+    route: '/api/auth/passkeys/{id}',
+    operationId: 'deletePasskey',
+    summary: 'Remove a passkey',
+    params: z.object({ id: z.coerce.number().int().positive() }),
+    response: successResponseSchema,
+    auth: true,
+    rateLimit: 'passkeyManage',
+  },
+  async ({ params, session }) => {
+    // Scoped to the session's user, so other people's ids look the same as missing ones
+    if (!(await deletePasskey(Number(session.userId), params.id))) {
+      throw new HttpError(404, 'Passkey not found');
+    }
+
+    await audit.record({
+      action: 'auth.passkey_delete',
+      actorId: session.userId,
+      target: { type: 'passkey', id: params.id },
+    });
+
+    return { success: true as const };
+  }
+);
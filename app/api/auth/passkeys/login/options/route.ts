@@ -0,0 +1,14 @@
+import { createHandler } from '@/lib/handler';
+import { createAuthenticationOptions } from '@/lib/passkeys';
+import { webauthnOptionsResponseSchema } from '@/lib/responses';
+
+export const POST = createHandler(
+  {
+    route: '/api/auth/passkeys/login/options',
+    operationId: 'getPasskeyLoginOptions',
+    summary: 'Start a passkey sign-in',
+    response: webauthnOptionsResponseSchema,
+    rateLimit: 'passkeyLogin',
+  },
+  async () => createAuthenticationOptions()
+);
@@ -0,0 +1,65 @@
+import type { AuthenticationResponseJSON } from '@simplewebauthn/server';
+import { HttpError } from '@/lib/api';
+import { audit } from '@/lib/audit';
+import { generateMfaToken } from '@/lib/auth';
+import { createHandler } from '@/lib/handler';
+import { isTotpEnabled } from '@/lib/mfa';
+import { PasskeyError, verifyAuthentication } from '@/lib/passkeys';
+import { loginResponseSchema } from '@/lib/responses';
+import { trackAuthError } from '@/lib/sentry';
+import { issueAuthTokens } from '@/lib/tokens';
+import { getUserAuthorization, recordSuccessfulLogin, toAuthUser } from '@/lib/users';
+import { passkeyAuthenticationSchema } from '@/lib/validations';
+
+export const POST = createHandler(
+  {
+    route: '/api/auth/passkeys/login/verify',
+    operationId: 'verifyPasskeyLogin',
+    summary: 'Sign in with a passkey',
+    body: passkeyAuthenticationSchema,
+    response: loginResponseSchema,
+    rateLimit: 'passkeyLogin',
+  },
+  async ({ body }) => {
+    const { user, userVerified } = await verifyAuthentication(
+      body.response as unknown as AuthenticationResponseJSON
+    ).catch(async (error) => {
+      if (error instanceof PasskeyError) {
+        trackAuthError(error, undefined, 'passkey:login');
+        await audit.record({
+          action: 'auth.login_failed',
+          metadata: { reason: 'invalid_credentials' },
+        });
+        throw new HttpError(401, error.message);
+      }
+
+      throw error;
+    });
+
+    // A user-verified passkey is already two factors, a bare presence check only counts as one
+    if (isTotpEnabled(user) && !userVerified) {
+      const mfaToken = await generateMfaToken({ userId: String(user.id) });
+
+      return { mfaRequired: true as const, mfaToken };
+    }
+
+    const loggedIn = await recordSuccessfulLogin(user.id);
+
+    const authorization = await getUserAuthorization(user.id);
+
+    const sessionId = await issueAuthTokens({
+      userId: String(user.id),
+      email: user.email,
+      ...authorization,
+    });
+
+    await audit.record({
+      action: 'auth.login',
+      actorId: user.id,
+      target: { type: 'session', id: sessionId },
+      metadata: { method: 'passkey' },
+    });
+
+    return { user: toAuthUser(loggedIn, authorization) };
+  }
+);
@@ -0,0 +1,23 @@
+import { HttpError } from '@/lib/api';
+import { createHandler } from '@/lib/handler';
+import { createRegistrationOptions } from '@/lib/passkeys';
+import { webauthnOptionsResponseSchema } from '@/lib/responses';
+import { findUserById } from '@/lib/users';
+
+export const POST = createHandler(
+  {
+    route: '/api/auth/passkeys/register/options',
+    operationId: 'getPasskeyRegistrationOptions',
+    summary: 'Start registering a passkey',
+    response: webauthnOptionsResponseSchema,
+    auth: true,
+    rateLimit: 'passkeyManage',
+  },
+  async ({ session }) => {
+    const user = await findUserById(session.userId);
+
+    if (!user) throw new HttpError(401, 'Unauthorized');
+
+    return createRegistrationOptions(user);
+  }
+);
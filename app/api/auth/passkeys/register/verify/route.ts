@@ -0,0 +1,54 @@
+import type { RegistrationResponseJSON } from '@simplewebauthn/server';
+import { z } from 'zod';
+import { HttpError } from '@/lib/api';
+import { audit } from '@/lib/audit';
+import { isUniqueViolation } from '@/lib/db';
+import { createHandler } from '@/lib/handler';
+import { PasskeyError, toPasskey, verifyRegistration } from '@/lib/passkeys';
+import { passkeySchema } from '@/lib/responses';
+import { trackAuthError } from '@/lib/sentry';
+import { findUserById } from '@/lib/users';
+import { passkeyRegistrationSchema } from '@/lib/validations';
+
+export const POST = createHandler(
+  {
+    route: '/api/auth/passkeys/register/verify',
+    operationId: 'verifyPasskeyRegistration',
+    summary: 'Store a new passkey',
+    body: passkeyRegistrationSchema,
+    response: z.object({ passkey: passkeySchema }),
+    status: 201,
+    auth: true,
+    rateLimit: 'passkeyManage',
+  },
+  async ({ body, session }) => {
+    const user = await findUserById(session.userId);
+
+    if (!user) throw new HttpError(401, 'Unauthorized');
+
+    try {
+      const passkey = await verifyRegistration(
+        user,
+        body.response as unknown as RegistrationResponseJSON,
+        body.name
+      );
+
+      await audit.record({
+        action: 'auth.passkey_register',
+        actorId: user.id,
+        target: { type: 'passkey', id: passkey.id },
+      });
+
+      return { passkey: toPasskey(passkey) };
+    } catch (error) {
+      if (error instanceof PasskeyError) {
+        trackAuthError(error, session.userId, 'passkey:register');
+        throw new HttpError(400, error.message);
+      }
+
+      if (isUniqueViolation(error)) throw new HttpError(409, 'This passkey is already registered');
+
+      throw error;
+    }
+  }
+);
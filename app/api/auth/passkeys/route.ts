@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { createHandler } from '@/lib/handler';
+import { listPasskeys, toPasskey } from '@/lib/passkeys';
+import { passkeySchema } from '@/lib/responses';
+
+export const GET = createHandler(
+  {
+    route: '/api/auth/passkeys',
+    operationId: 'listPasskeys',
+    summary: 'List registered passkeys',
+    response: z.object({ passkeys: z.array(passkeySchema) }),
+    auth: true,
+  },
+  async ({ session }) => {
+    const passkeys = await listPasskeys(Number(session.userId));
+
+    return { passkeys: passkeys.map(toPasskey) };
+  }
+);
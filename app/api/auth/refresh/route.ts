@@ -0,0 +1,61 @@
+import { HttpError } from '@/lib/api';
+import { audit } from '@/lib/audit';
+import { clearAuthCookies, generateAccessToken, getRefreshToken, setAuthCookies } from '@/lib/auth';
+import { createHandler } from '@/lib/handler';
+import { userResponseSchema } from '@/lib/responses';
+import { trackAuthError } from '@/lib/sentry';
+import { rotateRefreshToken } from '@/lib/tokens';
+import { findUserById, getUserAuthorization, toAuthUser } from '@/lib/users';
+
+export const POST = createHandler(
+  {
+    route: '/api/auth/refresh',
+    operationId: 'refresh',
+    summary: 'Rotate the refresh token and reissue the access token',
+    response: userResponseSchema,
+    rateLimit: 'refresh',
+  },
+  async () => {
+    const refreshToken = await getRefreshToken();
+
+    if (!refreshToken) throw new HttpError(401, 'Invalid or expired refresh token');
+
+    const rotation = await rotateRefreshToken(refreshToken);
+
+    // The request that won the race already set fresh cookies, so leave them alone
+    if (rotation.status === 'concurrent') {
+      throw new HttpError(409, 'Refresh token was just rotated');
+    }
+
+    if (rotation.status === 'reused') {
+      trackAuthError(new Error('Refresh token reuse detected'), rotation.userId, 'refresh');
+      await audit.record({ action: 'auth.token_reuse', actorId: rotation.userId });
+    }
+
+    const user = rotation.status === 'rotated' ? await findUserById(rotation.userId) : undefined;
+
+    if (rotation.status !== 'rotated' || !user) {
+      await clearAuthCookies();
+      throw new HttpError(401, 'Invalid or expired refresh token');
+    }
+
+    // Reloaded on every refresh so role changes reach the access token within its lifetime
+    const authorization = await getUserAuthorization(user.id);
+    const accessToken = await generateAccessToken({
+      userId: String(user.id),
+      email: user.email,
+      ...authorization,
+      sessionId: rotation.sessionId,
+    });
+
+    await setAuthCookies(accessToken, rotation.refreshToken);
+
+    await audit.record({
+      action: 'auth.token_refresh',
+      actorId: user.id,
+      target: { type: 'session', id: rotation.sessionId },
+    });
+
+    return { user: toAuthUser(user, authorization) };
+  }
+);
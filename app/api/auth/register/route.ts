@@ -0,0 +1,46 @@
+import { fieldError, HttpError } from '@/lib/api';
+import { audit } from '@/lib/audit';
+import { createHandler } from '@/lib/handler';
+import { userResponseSchema } from '@/lib/responses';
+import { trackApiError } from '@/lib/sentry';
+import { issueAuthTokens } from '@/lib/tokens';
+import { UserError, userService } from '@/lib/userService';
+import { getUserAuthorization, toAuthUser } from '@/lib/users';
+import { registerSchema } from '@/lib/validations';
+import { sendVerificationEmail } from '@/lib/verification';
+
+export const POST = createHandler(
+  {
+    route: '/api/auth/register',
+    operationId: 'register',
+    summary: 'Create an account',
+    body: registerSchema,
+    response: userResponseSchema,
+    status: 201,
+    rateLimit: 'register',
+  },
+  async ({ body: { email, password, firstName, lastName } }) => {
+    const user = await userService
+      .create({ email, password, firstName, lastName })
+      .catch((error) => {
+        if (error instanceof UserError && error.code === 'email_taken') {
+          throw new HttpError(409, error.message, { errors: fieldError('email', error.message) });
+        }
+
+        throw error;
+      });
+
+    await audit.record({ action: 'auth.register', actorId: user.id });
+
+    const authorization = await getUserAuthorization(user.id);
+
+    await issueAuthTokens({ userId: String(user.id), email: user.email, ...authorization });
+
+    // A mail outage shouldn't fail sign-up, the user can ask for another link later
+    await sendVerificationEmail(user).catch((error: Error) =>
+      trackApiError(error, '/api/auth/register', 'POST', String(user.id))
+    );
+
+    return { user: toAuthUser(user, authorization) };
+  }
+);
@@ -0,0 +1,55 @@
+import { fieldError, HttpError } from '@/lib/api';
+import { audit } from '@/lib/audit';
+import { hashPassword } from '@/lib/auth';
+import { db } from '@/lib/db';
+import { createHandler } from '@/lib/handler';
+import { successResponseSchema } from '@/lib/responses';
+import { revokeUserSessions } from '@/lib/sessions';
+import { createPostgresUserRepository } from '@/lib/userRepository';
+import { resetPasswordSchema } from '@/lib/validations';
+import { consumeVerificationToken } from '@/lib/verification';
+
+function invalidToken(): HttpError {
+  const message = 'Invalid or expired reset token';
+
+  return new HttpError(400, message, { errors: fieldError('token', message) });
+}
+
+export const POST = createHandler(
+  {
+    route: '/api/auth/reset-password',
+    operationId: 'resetPassword',
+    summary: 'Set a new password with a reset token',
+    body: resetPasswordSchema,
+    response: successResponseSchema,
+    rateLimit: 'resetPassword',
+  },
+  async ({ body: { token, password } }) => {
+    const hashedPassword = await hashPassword(password);
+
+    // Throwing rolls back the token's consumption along with everything else
+    const userId = await db.transaction(async (tx) => {
+      const consumedUserId = await consumeVerificationToken(token, 'password_reset', tx);
+
+      if (consumedUserId === null) throw invalidToken();
+
+      const updated = await createPostgresUserRepository(tx).update(consumedUserId, {
+        password: hashedPassword,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+      });
+
+      // The account was deleted after the email went out
+      if (!updated) throw invalidToken();
+
+      return consumedUserId;
+    });
+
+    // Whoever triggered the reset may not be the one holding the existing sessions
+    await revokeUserSessions(userId);
+
+    await audit.record({ action: 'auth.password_reset', actorId: userId });
+
+    return { success: true as const };
+  }
+);
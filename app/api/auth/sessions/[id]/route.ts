@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { HttpError } from '@/lib/api';
+import { audit } from '@/lib/audit';
+import { clearAuthCookies } from '@/lib/auth';
+import { createHandler } from '@/lib/handler';
+import { successResponseSchema } from '@/lib/responses';
+import { revokeUserSession } from '@/lib/sessions';
+
+export const DELETE = createHandler(
+  {
+    route: '/api/auth/sessions/{id}',
+    operationId: 'revokeSession',
+    summary: 'Sign out one session',
+    params: z.object({ id: z.uuid() }),
+    response: successResponseSchema,
+    auth: true,
+    rateLimit: 'sessionsManage',
+  },
+  async ({ params: { id }, session }) => {
+    if (!(await revokeUserSession(Number(session.userId), id))) {
+      throw new HttpError(404, 'Session not found');
+    }
+
+    await audit.record({
+      action: 'auth.session_revoke',
+      actorId: session.userId,
+      target: { type: 'session', id },
+      metadata: { count: 1 },
+    });
+
+    // Revoking the current session is the same as signing out
+    if (id === session.sessionId) await clearAuthCookies();
+
+    return { success: true as const };
+  }
+);
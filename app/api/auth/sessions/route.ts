@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { audit } from '@/lib/audit';
+import { createHandler } from '@/lib/handler';
+import { userSessionSchema } from '@/lib/responses';
+import { listActiveSessions, revokeUserSessions, toUserSession } from '@/lib/sessions';
+
+export const GET = createHandler(
+  {
+    route: '/api/auth/sessions',
+    operationId: 'listSessions',
+    summary: 'List active sessions',
+    response: z.object({ sessions: z.array(userSessionSchema) }),
+    auth: true,
+  },
+  async ({ session }) => {
+    const sessions = await listActiveSessions(Number(session.userId));
+
+    return { sessions: sessions.map((record) => toUserSession(record, session.sessionId)) };
+  }
+);
+
+// Signs out everywhere except the session making the request
+export const DELETE = createHandler(
+  {
+    route: '/api/auth/sessions',
+    operationId: 'revokeOtherSessions',
+    summary: 'Sign out every other session',
+    response: z.object({ success: z.literal(true), revoked: z.number().int() }),
+    auth: true,
+    rateLimit: 'sessionsManage',
+  },
+  async ({ session }) => {
+    const revoked = await revokeUserSessions(Number(session.userId), session.sessionId);
+
+    await audit.record({
+      action: 'auth.session_revoke',
+      actorId: session.userId,
+      metadata: { count: revoked },
+    });
+
+    return { success: true as const, revoked };
+  }
+);
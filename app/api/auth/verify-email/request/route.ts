@@ -0,0 +1,27 @@
+import { HttpError } from '@/lib/api';
+import { createHandler } from '@/lib/handler';
+import { successResponseSchema } from '@/lib/responses';
+import { findUserById } from '@/lib/users';
+import { sendVerificationEmail } from '@/lib/verification';
+
+export const POST = createHandler(
+  {
+    route: '/api/auth/verify-email/request',
+    operationId: 'requestEmailVerification',
+    summary: 'Send another verification email',
+    response: successResponseSchema,
+    auth: true,
+    rateLimit: 'requestEmailVerification',
+  },
+  async ({ session }) => {
+    const user = await findUserById(session.userId);
+
+    if (!user) throw new HttpError(401, 'Unauthorized');
+
+    if (user.emailVerifiedAt) throw new HttpError(409, 'Email is already verified');
+
+    await sendVerificationEmail(user);
+
+    return { success: true as const };
+  }
+);
@@ -0,0 +1,46 @@
+import { fieldError, HttpError } from '@/lib/api';
+import { audit } from '@/lib/audit';
+import { db } from '@/lib/db';
+import { createHandler } from '@/lib/handler';
+import { successResponseSchema } from '@/lib/responses';
+import { createPostgresUserRepository } from '@/lib/userRepository';
+import { verifyEmailSchema } from '@/lib/validations';
+import { consumeVerificationToken } from '@/lib/verification';
+
+function invalidToken(): HttpError {
+  const message = 'Invalid or expired verification token';
+
+  return new HttpError(400, message, { errors: fieldError('token', message) });
+}
+
+export const POST = createHandler(
+  {
+    route: '/api/auth/verify-email',
+    operationId: 'verifyEmail',
+    summary: 'Confirm an email address',
+    body: verifyEmailSchema,
+    response: successResponseSchema,
+    rateLimit: 'verifyEmail',
+  },
+  async ({ body }) => {
+    // Throwing rolls back the token's consumption along with everything else
+    const userId = await db.transaction(async (tx) => {
+      const consumedUserId = await consumeVerificationToken(body.token, 'email_verification', tx);
+
+      if (consumedUserId === null) throw invalidToken();
+
+      const updated = await createPostgresUserRepository(tx).update(consumedUserId, {
+        emailVerifiedAt: new Date(),
+      });
+
+      // The account was deleted after the email went out
+      if (!updated) throw invalidToken();
+
+      return consumedUserId;
+    });
+
+    await audit.record({ action: 'auth.email_verify', actorId: userId });
+
+    return { success: true as const };
+  }
+);
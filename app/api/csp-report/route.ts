@@ -0,0 +1,50 @@
+import { createHandler } from '@/lib/handler';
+import { type CspViolation, trackCspViolation } from '@/lib/sentry';
+import { type CspReportInput, cspReportSchema } from '@/lib/validations';
+
+function toViolations(report: CspReportInput): CspViolation[] {
+  if (Array.isArray(report)) {
+    return report.map(({ body }) => ({
+      directive: body.effectiveDirective,
+      blockedUri: body.blockedURL,
+      documentUri: body.documentURL,
+      disposition: body.disposition,
+      sourceFile: body.sourceFile,
+      lineNumber: body.lineNumber,
+      columnNumber: body.columnNumber,
+      sample: body.sample,
+    }));
+  }
+
+  const violation = report['csp-report'];
+
+  return [
+    {
+      directive: violation['effective-directive'] ?? violation['violated-directive'] ?? 'unknown',
+      blockedUri: violation['blocked-uri'],
+      documentUri: violation['document-uri'],
+      disposition: violation.disposition,
+      sourceFile: violation['source-file'],
+      lineNumber: violation['line-number'],
+      columnNumber: violation['column-number'],
+      sample: violation['script-sample'],
+    },
+  ];
+}
+
+// Browsers post here on their own, see the report-uri and report-to directives in lib/csp.ts
+export const POST = createHandler(
+  {
+    route: '/api/csp-report',
+    operationId: 'reportCspViolation',
+    summary: 'Receive Content-Security-Policy violation reports',
+    body: cspReportSchema,
+    status: 204,
+    rateLimit: 'cspReport',
+  },
+  async ({ body }) => {
+    for (const violation of toViolations(body)) trackCspViolation(violation);
+
+    return new Response(null, { status: 204 });
+  }
+);
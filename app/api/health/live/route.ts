@@ -0,0 +1,16 @@
+import { APP_CONFIG } from '@/lib/config';
+import { canSeeHealthDetails, healthResponse } from '@/lib/health';
+import { version } from '@/package.json';
+
+// Liveness only says the process is up and serving, dependencies are checked by /api/health/ready
+// so an outage elsewhere doesn't get every instance restarted
+export async function GET(request: Request) {
+  if (!canSeeHealthDetails(request)) return healthResponse({ status: 'pass' });
+
+  return healthResponse({
+    status: 'pass',
+    version,
+    environment: APP_CONFIG.ENVIRONMENT,
+    uptimeSeconds: Math.round(process.uptime()),
+  });
+}
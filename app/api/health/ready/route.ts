@@ -0,0 +1,21 @@
+import { APP_CONFIG } from '@/lib/config';
+import { canSeeHealthDetails, healthResponse, runProbes } from '@/lib/health';
+import { version } from '@/package.json';
+
+// 503 once a critical probe fails, so load balancers and the Docker healthcheck stop routing here
+export async function GET(request: Request) {
+  const report = await runProbes();
+  const status = report.status === 'fail' ? 503 : 200;
+
+  if (!canSeeHealthDetails(request)) return healthResponse({ status: report.status }, status);
+
+  return healthResponse(
+    {
+      ...report,
+      version,
+      environment: APP_CONFIG.ENVIRONMENT,
+      checkedAt: new Date().toISOString(),
+    },
+    status
+  );
+}
@@ -1,29 +1,2 @@
-import { sql } from 'drizzle-orm';
-import { NextResponse } from 'next/server';
-import { db } from '@/lib/db';
-
-export async function GET() {
-  try {
-    // Check database connection
-    await db.execute(sql`SELECT 1`);
-
-    return NextResponse.json({
-      status: 'healthy',
-      timestamp: new Date().toISOString(),
-      environment: process.env.NODE_ENV,
-      version: process.env.npm_package_version || 'unknown',
-    });
-  } catch (error) {
-    console.error('Health check failed:', error);
-
-    return NextResponse.json(
-      {
-        status: 'unhealthy',
-        error: error instanceof Error ? error.message : 'Unknown error',
-        timestamp: new Date().toISOString(),
-        environment: process.env.NODE_ENV,
-      },
-      { status: 503 }
-    );
-  }
-}
+// Kept for monitors that still point at /api/health
+export { GET } from './ready/route';
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { apiRoutes } from '@/lib/generated/apiRoutes';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+// Built on first request, the routes can't change while the server is running
+let document: ReturnType<typeof buildOpenApiDocument> | undefined;
+
+export async function GET() {
+  document ??= buildOpenApiDocument(apiRoutes);
+
+  return NextResponse.json(document);
+}
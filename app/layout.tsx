@@ -1,10 +1,11 @@
 import { GoogleTagManager } from '@next/third-parties/google';
 import type { Metadata } from 'next';
 import { Geist, Geist_Mono } from 'next/font/google';
+import { headers } from 'next/headers';
 import './globals.css';
 import QueryProvider from '@/components/Providers/QueryProvider';
 import { UserProvider } from '@/context/UserContext';
-import { APP_CONFIG } from '@/lib/constants';
+import { APP_CONFIG, CSP_CONFIG } from '@/lib/config';
 
 const geistSans = Geist({
   variable: '--font-geist-sans',
@@ -25,12 +26,15 @@ interface Props {
   children: React.ReactNode;
 }
 
-export default function RootLayout(props: Readonly<Props>) {
+export default async function RootLayout(props: Readonly<Props>) {
+  // Allows the scripts rendered here under the Content-Security-Policy set by middleware.ts
+  const nonce = (await headers()).get(CSP_CONFIG.NONCE_HEADER) ?? undefined;
+
   return (
     <html lang="en">
       <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>
         {APP_CONFIG.GOOGLE_TAG_MANAGER_ID && (
-          <GoogleTagManager gtmId={APP_CONFIG.GOOGLE_TAG_MANAGER_ID} />
+          <GoogleTagManager gtmId={APP_CONFIG.GOOGLE_TAG_MANAGER_ID} nonce={nonce} />
         )}
         <QueryProvider>
           <UserProvider>{props.children}</UserProvider>
@@ -0,0 +1,19 @@
+'use client';
+
+import type { FC, ReactNode } from 'react';
+import useCan from '@/hooks/useCan';
+import type { Permission } from '@/lib/permissions';
+
+interface Props {
+  permission: Permission;
+  children: ReactNode;
+  fallback?: ReactNode;
+}
+
+const Can: FC<Props> = (props) => {
+  const allowed = useCan(props.permission);
+
+  return <>{allowed ? props.children : (props.fallback ?? null)}</>;
+};
+
+export default Can;
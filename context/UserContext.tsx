@@ -1,82 +1,45 @@
 'use client';
 
-import { createContext, type ReactNode, useContext, useReducer } from 'react';
-import type { User } from '@/lib/types';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { createContext, type ReactNode, useContext, useState } from 'react';
+import { ApiError } from '@/lib/apiClient';
+import { authAPI, type ClientPasskey, type ClientUser, type LoginResult } from '@/lib/authApi';
+import type { LoginInput, RegisterInput } from '@/lib/validations';
 
-interface AuthState {
-  user: User | null;
-  isLoading: boolean;
-  isAuthenticated: boolean;
-  token: string | null;
-}
-
-type AuthAction =
-  | { type: 'SET_LOADING'; payload: boolean }
-  | { type: 'SET_USER'; payload: User }
-  | { type: 'SET_TOKEN'; payload: string }
-  | { type: 'LOGOUT' }
-  | { type: 'UPDATE_USER'; payload: Partial<User> }
-  | { type: 'CLEAR_AUTH' };
+export const AUTH_QUERY_KEY = ['auth', 'me'] as const;
 
 // Context interface
 interface UserContextType {
   // State
-  user: User | null;
+  user: ClientUser | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  token: string | null;
+  error: ApiError | null;
+  // Set after a correct password on an account with two-factor, until verifyMfa succeeds
+  isMfaRequired: boolean;
 
   // Actions
-  login: (email: string, password: string) => Promise<void>;
-  logout: () => void;
-  register: (userData: Omit<User, 'id' | 'createdAt'>) => Promise<void>;
-  updateUser: (userData: Partial<User>) => void;
+  login: (input: LoginInput) => Promise<ClientUser | null>;
+  // Pass the token explicitly when it arrives another way, e.g. the OAuth callback fragment
+  verifyMfa: (code: string, mfaToken?: string) => Promise<ClientUser | null>;
+  loginWithPasskey: () => Promise<ClientUser | null>;
+  registerPasskey: (name?: string) => Promise<ClientPasskey | null>;
+  logout: () => Promise<void>;
+  register: (input: RegisterInput) => Promise<ClientUser | null>;
+  updateUser: (userData: Partial<ClientUser>) => void;
   refreshUser: () => Promise<void>;
+  clearError: () => void;
 }
 
-// Initial state
-const initialState: AuthState = {
-  user: null,
-  isLoading: false,
-  isAuthenticated: false,
-  token: null,
-};
-
-// Auth reducer
-function authReducer(state: AuthState, action: AuthAction): AuthState {
-  switch (action.type) {
-    case 'SET_LOADING':
-      return { ...state, isLoading: action.payload };
-
-    case 'SET_USER':
-      return {
-        ...state,
-        user: action.payload,
-        isAuthenticated: true,
-        isLoading: false,
-      };
-
-    case 'SET_TOKEN':
-      return { ...state, token: action.payload };
-
-    case 'UPDATE_USER':
-      return {
-        ...state,
-        user: state.user ? { ...state.user, ...action.payload } : null,
-      };
-
-    case 'LOGOUT':
-    case 'CLEAR_AUTH':
-      return {
-        ...initialState,
-        isLoading: false,
-      };
-
-    default:
-      return state;
-  }
+function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  return new ApiError(error instanceof Error ? error.message : 'Something went wrong', 0);
 }
 
+const isAuthQuery = (query: { queryKey: readonly unknown[] }) =>
+  query.queryKey[0] === AUTH_QUERY_KEY[0];
+
 const UserContext = createContext<UserContextType | undefined>(undefined);
 
 interface UserProviderProps {
@@ -84,113 +47,152 @@ interface UserProviderProps {
 }
 
 export function UserProvider({ children }: UserProviderProps) {
-  const [state, dispatch] = useReducer(authReducer, initialState);
+  const queryClient = useQueryClient();
 
-  // Login function
-  const login = async (_email: string, _password: string) => {
-    try {
-      dispatch({ type: 'SET_LOADING', payload: true });
+  const [actionError, setActionError] = useState<ApiError | null>(null);
 
-      // TODO: Implement actual API call here
-      // const response = await authAPI.login(email, password);
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
 
-      const user: User = {
-        id: '1',
-        email: _email,
-        username: 'mockuser',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      }; // TODO: This is a mock user, replace with actual user
+  // Session is restored from the httpOnly auth cookies, so the client never sees the tokens
+  const sessionQuery = useQuery({
+    queryKey: AUTH_QUERY_KEY,
+    queryFn: authAPI.getCurrentUser,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
 
-      const token = 'jwt-token'; // TODO: This is a mock token, replace with actual token
-
-      dispatch({ type: 'SET_TOKEN', payload: token });
-      dispatch({ type: 'SET_USER', payload: user });
-
-      // TODO: Store token in localStorage or secure storage
-      // localStorage.setItem('userToken', mockToken);
-    } catch (error) {
-      console.error('Login error:', error);
-      // TODO: Implement proper error handling for web
-      alert('Failed to login. Please try again.');
-      dispatch({ type: 'SET_LOADING', payload: false });
+  // Password and passkey sign-in both either finish the login or ask for a second factor
+  const handleLoginResult = (result: LoginResult) => {
+    if ('mfaRequired' in result) {
+      setMfaToken(result.mfaToken);
+      return;
     }
+
+    queryClient.setQueryData(AUTH_QUERY_KEY, result.user);
   };
 
-  // Logout function
-  const logout = () => {
-    try {
-      // TODO: Clear token from localStorage
-      // localStorage.removeItem('userToken');
+  const loginMutation = useMutation({
+    mutationFn: authAPI.login,
+    onSuccess: handleLoginResult,
+  });
+
+  const passkeyLoginMutation = useMutation({
+    mutationFn: authAPI.loginWithPasskey,
+    onSuccess: handleLoginResult,
+  });
+
+  const registerPasskeyMutation = useMutation({
+    mutationFn: authAPI.registerPasskey,
+  });
+
+  const verifyMfaMutation = useMutation({
+    mutationFn: authAPI.verifyMfa,
+    onSuccess: (user) => {
+      setMfaToken(null);
+      queryClient.setQueryData(AUTH_QUERY_KEY, user);
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: authAPI.register,
+    onSuccess: async (user) => {
+      queryClient.setQueryData(AUTH_QUERY_KEY, user);
+      await queryClient.invalidateQueries({ predicate: (query) => !isAuthQuery(query) });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: authAPI.logout,
+    onSettled: () => {
+      // Drop everything cached for the previous user, even if the request failed
+      queryClient.removeQueries({ predicate: (query) => !isAuthQuery(query) });
+      queryClient.setQueryData(AUTH_QUERY_KEY, null);
+    },
+  });
+
+  const runAction = async <T,>(action: () => Promise<T>): Promise<T | null> => {
+    setActionError(null);
 
-      dispatch({ type: 'LOGOUT' });
+    try {
+      return await action();
     } catch (error) {
-      console.error('Logout error:', error);
+      setActionError(toApiError(error));
+      return null;
     }
   };
 
-  // Register function
-  const register = async (_userData: Omit<User, 'id' | 'createdAt'>) => {
-    try {
-      dispatch({ type: 'SET_LOADING', payload: true });
-
-      // TODO: Implement actual API call here
-      // const response = await authAPI.register(userData);
-
-      const newUser: User = {
-        id: '1',
-        email: _userData.email,
-        username: _userData.username,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      }; // TODO: This is a mock user, replace with actual user
+  // Login function
+  const login = (input: LoginInput) =>
+    runAction(async () => {
+      const result = await loginMutation.mutateAsync(input);
+      return 'user' in result ? result.user : null;
+    });
+
+  const loginWithPasskey = () =>
+    runAction(async () => {
+      const result = await passkeyLoginMutation.mutateAsync();
+      return 'user' in result ? result.user : null;
+    });
+
+  const registerPasskey = (name?: string) =>
+    runAction(() => registerPasskeyMutation.mutateAsync(name));
+
+  // Second step of a login that asked for a two-factor code
+  const verifyMfa = (code: string, token = mfaToken ?? undefined) =>
+    runAction(() => {
+      if (!token)
+        throw new ApiError('Your sign-in attempt has expired. Please sign in again.', 401);
+      return verifyMfaMutation.mutateAsync({ code, mfaToken: token });
+    });
 
-      dispatch({ type: 'SET_USER', payload: newUser });
-    } catch (error) {
-      console.error('Registration error:', error);
-      // TODO: Implement proper error handling for web
-      alert('Failed to register. Please try again.');
-      dispatch({ type: 'SET_LOADING', payload: false });
-    }
+  // Logout function
+  const logout = async () => {
+    await runAction(() => logoutMutation.mutateAsync());
   };
 
+  // Register function
+  const register = (input: RegisterInput) => runAction(() => registerMutation.mutateAsync(input));
+
   // Update user function
-  const updateUser = (userData: Partial<User>) => {
-    dispatch({ type: 'UPDATE_USER', payload: userData });
+  const updateUser = (userData: Partial<ClientUser>) => {
+    queryClient.setQueryData<ClientUser | null>(AUTH_QUERY_KEY, (user) =>
+      user ? { ...user, ...userData } : null
+    );
   };
 
   // Refresh user data function
-
   const refreshUser = async () => {
-    try {
-      if (!state.token) return;
-
-      dispatch({ type: 'SET_LOADING', payload: true });
+    await runAction(() => queryClient.refetchQueries({ queryKey: AUTH_QUERY_KEY }));
+  };
 
-      // TODO: Implement actual API call here
-      // const response = await authAPI.getCurrentUser();
-      // dispatch({ type: 'SET_USER', payload: response.data });
+  const clearError = () => setActionError(null);
 
-      dispatch({ type: 'SET_LOADING', payload: false });
-    } catch (error) {
-      console.error('Refresh user error:', error);
-      dispatch({ type: 'SET_LOADING', payload: false });
-    }
-  };
+  const user = sessionQuery.data ?? null;
 
   const contextValue: UserContextType = {
     // State
-    user: state.user,
-    isLoading: state.isLoading,
-    isAuthenticated: state.isAuthenticated,
-    token: state.token,
+    user,
+    isLoading:
+      sessionQuery.isPending ||
+      loginMutation.isPending ||
+      passkeyLoginMutation.isPending ||
+      verifyMfaMutation.isPending ||
+      registerMutation.isPending ||
+      logoutMutation.isPending,
+    isAuthenticated: user !== null,
+    error: actionError ?? (sessionQuery.error ? toApiError(sessionQuery.error) : null),
+    isMfaRequired: mfaToken !== null,
 
     // Actions
     login,
+    verifyMfa,
+    loginWithPasskey,
+    registerPasskey,
     logout,
     register,
     updateUser,
     refreshUser,
+    clearError,
   };
 
   return <UserContext.Provider value={contextValue}>{children}</UserContext.Provider>;
@@ -1,18 +1,33 @@
 import 'dotenv/config';
 import { defineConfig } from 'drizzle-kit';
-import { DB_CONFIG } from '@/lib/constants';
 
-if (!DB_CONFIG.URL) {
-  throw new Error('DATABASE_URL environment variable is required');
+// Reads the variables directly, lib/env.ts would also demand the app's secrets from drizzle-kit
+function getCredentials() {
+  const { env } = process;
+
+  if (env.DATABASE_URL) return { url: env.DATABASE_URL };
+
+  if (!env.DATABASE_HOST) {
+    throw new Error('DATABASE_URL or DATABASE_HOST environment variable is required');
+  }
+
+  const ssl = env.DATABASE_SSL ?? 'disable';
+
+  return {
+    host: env.DATABASE_HOST,
+    port: Number(env.DATABASE_PORT ?? 5432),
+    database: env.DATABASE_NAME ?? 'next_boiler',
+    user: env.DATABASE_USER ?? 'postgres',
+    password: env.DATABASE_PASSWORD,
+    ssl: ssl === 'disable' ? false : (ssl as 'require' | 'verify-full'),
+  };
 }
 
 export default defineConfig({
   out: './drizzle',
   schema: './lib/schema.ts',
   dialect: 'postgresql',
-  dbCredentials: {
-    url: DB_CONFIG.URL,
-  },
+  dbCredentials: getCredentials(),
   verbose: false,
   strict: true,
 });
@@ -0,0 +1,7 @@
+ALTER TABLE "users" ADD COLUMN "first_name" varchar(50);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "last_name" varchar(50);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "bio" varchar(500);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "avatar" varchar(2048);--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "email_verified_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "last_login_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "deleted_at" timestamp;
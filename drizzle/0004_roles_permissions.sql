@@ -0,0 +1,47 @@
+CREATE TABLE "roles" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "roles_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"name" varchar(50) NOT NULL,
+	"description" varchar(255),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "roles_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+CREATE TABLE "role_permissions" (
+	"role_id" integer NOT NULL,
+	"permission" varchar(100) NOT NULL,
+	CONSTRAINT "role_permissions_role_id_permission_pk" PRIMARY KEY("role_id","permission")
+);
+--> statement-breakpoint
+CREATE TABLE "user_roles" (
+	"user_id" integer NOT NULL,
+	"role_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_roles_user_id_role_id_pk" PRIMARY KEY("user_id","role_id")
+);
+--> statement-breakpoint
+ALTER TABLE "role_permissions" ADD CONSTRAINT "role_permissions_role_id_roles_id_fk" FOREIGN KEY ("role_id") REFERENCES "public"."roles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_roles" ADD CONSTRAINT "user_roles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_roles" ADD CONSTRAINT "user_roles_role_id_roles_id_fk" FOREIGN KEY ("role_id") REFERENCES "public"."roles"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "roles" ("name", "description") VALUES
+	('admin', 'Full access to the application and its users'),
+	('user', 'Default role for registered users');--> statement-breakpoint
+INSERT INTO "role_permissions" ("role_id", "permission")
+SELECT "roles"."id", "permissions"."permission"
+FROM "roles"
+CROSS JOIN (VALUES
+	('profile:read'),
+	('profile:update'),
+	('admin:access'),
+	('users:read'),
+	('users:write'),
+	('users:delete'),
+	('roles:manage')
+) AS "permissions"("permission")
+WHERE "roles"."name" = 'admin';--> statement-breakpoint
+INSERT INTO "role_permissions" ("role_id", "permission")
+SELECT "roles"."id", "permissions"."permission"
+FROM "roles"
+CROSS JOIN (VALUES ('profile:read'), ('profile:update')) AS "permissions"("permission")
+WHERE "roles"."name" = 'user';--> statement-breakpoint
+INSERT INTO "user_roles" ("user_id", "role_id")
+SELECT "users"."id", "roles"."id" FROM "users" CROSS JOIN "roles" WHERE "roles"."name" = 'user';
@@ -0,0 +1,24 @@
+CREATE TABLE "sessions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" integer NOT NULL,
+	"user_agent" varchar(512),
+	"ip_address" varchar(45),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"revoked_at" timestamp
+);
+--> statement-breakpoint
+INSERT INTO "sessions" ("id", "user_id", "created_at", "last_seen_at", "expires_at", "revoked_at")
+SELECT
+	"family_id",
+	min("user_id"),
+	min("created_at"),
+	max("created_at"),
+	max("expires_at"),
+	CASE WHEN bool_and("revoked_at" IS NOT NULL) THEN max("revoked_at") END
+FROM "refresh_tokens"
+GROUP BY "family_id";--> statement-breakpoint
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ADD CONSTRAINT "refresh_tokens_family_id_sessions_id_fk" FOREIGN KEY ("family_id") REFERENCES "public"."sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "sessions_user_id_idx" ON "sessions" USING btree ("user_id");
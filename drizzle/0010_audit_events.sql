@@ -0,0 +1,31 @@
+CREATE TABLE "audit_events" (
+	"id" bigint PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "audit_events_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 9223372036854775807 START WITH 1 CACHE 1),
+	"actor_id" integer,
+	"action" varchar(64) NOT NULL,
+	"target_type" varchar(32),
+	"target_id" varchar(64),
+	"ip_address" varchar(45),
+	"user_agent" varchar(512),
+	"metadata" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"previous_hash" varchar(64),
+	"hash" varchar(64) NOT NULL,
+	CONSTRAINT "audit_events_hash_unique" UNIQUE("hash")
+);
+--> statement-breakpoint
+CREATE INDEX "audit_events_actor_id_idx" ON "audit_events" USING btree ("actor_id");--> statement-breakpoint
+CREATE INDEX "audit_events_action_idx" ON "audit_events" USING btree ("action");--> statement-breakpoint
+CREATE INDEX "audit_events_target_idx" ON "audit_events" USING btree ("target_type","target_id");--> statement-breakpoint
+CREATE INDEX "audit_events_created_at_idx" ON "audit_events" USING btree ("created_at");--> statement-breakpoint
+CREATE FUNCTION "audit_events_append_only"() RETURNS trigger AS $$
+BEGIN
+	RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "audit_events_no_update_or_delete" BEFORE UPDATE OR DELETE ON "audit_events"
+FOR EACH ROW EXECUTE FUNCTION "audit_events_append_only"();--> statement-breakpoint
+CREATE TRIGGER "audit_events_no_truncate" BEFORE TRUNCATE ON "audit_events"
+FOR EACH STATEMENT EXECUTE FUNCTION "audit_events_append_only"();--> statement-breakpoint
+INSERT INTO "role_permissions" ("role_id", "permission")
+SELECT "roles"."id", 'audit:read' FROM "roles" WHERE "roles"."name" = 'admin'
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,7 @@
+CREATE TABLE "idempotency_keys" (
+	"key" varchar(64) PRIMARY KEY NOT NULL,
+	"entry" jsonb NOT NULL,
+	"expires_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "idempotency_keys_expires_at_idx" ON "idempotency_keys" USING btree ("expires_at");
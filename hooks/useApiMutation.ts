@@ -0,0 +1,154 @@
+import { type QueryKey, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useRef } from 'react';
+import { ApiError, request as apiRequest } from '@/lib/apiClient';
+
+// Matches lib/idempotency.ts, which can't be imported here as it pulls in the database
+const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+export type MutationMethod = 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// The shape of every generated client operation, e.g. api.changePassword
+type MutationRequest<TVariables, TData> = (
+  variables: TVariables,
+  init: RequestInit
+) => Promise<TData>;
+
+interface OptimisticUpdate<TVariables, TCache> {
+  queryKey: QueryKey;
+  // Applied before the request is sent and rolled back if it fails
+  update: (current: TCache | undefined, variables: TVariables) => TCache;
+}
+
+interface ApiMutationOptions<TVariables, TData, TCache> {
+  // A generated client operation, or a URL the variables are sent to as JSON
+  request: MutationRequest<TVariables, TData> | { url: string; method?: MutationMethod };
+  // Further attempts after a 5xx response, other failures are never retried. The server replays
+  // the first result for a repeated key, so a request that was applied is not applied twice.
+  retries?: number;
+  optimistic?: OptimisticUpdate<TVariables, TCache>;
+  // Refetched once the mutation settles, on top of the optimistic query
+  invalidates?: QueryKey[];
+  onSuccess?: (data: TData, variables: TVariables) => unknown;
+  onError?: (error: Error, variables: TVariables) => unknown;
+}
+
+interface Submission<TVariables> {
+  variables: TVariables;
+  init: RequestInit;
+}
+
+interface MutationContext {
+  rollback?: () => void;
+}
+
+const DEFAULT_RETRIES = 2;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8000;
+
+// Aborts reject with a DOMException, so they are never retried either
+const isServerError = (error: Error) => error instanceof ApiError && error.status >= 500;
+
+/**
+ * A React Query mutation against the API. Every call gets its own idempotency key, reused
+ * across its retries, and an AbortSignal that fires when the component unmounts. The CSRF
+ * token is added by lib/apiClient.ts.
+ */
+export default function useApiMutation<TVariables = void, TData = unknown, TCache = unknown>(
+  options: ApiMutationOptions<TVariables, TData, TCache>
+) {
+  const queryClient = useQueryClient();
+  const controllers = useRef(new Set<AbortController>());
+
+  useEffect(() => {
+    const active = controllers.current;
+
+    return () => {
+      for (const controller of active) controller.abort();
+      active.clear();
+    };
+  }, []);
+
+  const send = ({ variables, init }: Submission<TVariables>) => {
+    const { request } = options;
+
+    if (typeof request === 'function') return request(variables, init);
+
+    return apiRequest<TData>(request.url, {
+      ...init,
+      method: request.method ?? 'POST',
+      body: variables === undefined ? undefined : JSON.stringify(variables),
+    });
+  };
+
+  const mutation = useMutation<TData, Error, Submission<TVariables>, MutationContext>({
+    mutationFn: send,
+    retry: (failureCount, error) =>
+      isServerError(error) && failureCount < (options.retries ?? DEFAULT_RETRIES),
+    retryDelay: (attempt) => Math.min(BASE_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS),
+    onMutate: async ({ variables }) => {
+      const { optimistic } = options;
+
+      if (!optimistic) return {};
+
+      // A refetch landing after the update would overwrite it with stale data
+      await queryClient.cancelQueries({ queryKey: optimistic.queryKey });
+
+      const previous = queryClient.getQueryData<TCache>(optimistic.queryKey);
+
+      queryClient.setQueryData<TCache>(optimistic.queryKey, (current) =>
+        optimistic.update(current, variables)
+      );
+
+      return { rollback: () => queryClient.setQueryData(optimistic.queryKey, previous) };
+    },
+    onError: (error, { variables }, context) => {
+      context?.rollback?.();
+
+      return options.onError?.(error, variables);
+    },
+    onSuccess: (data, { variables }) => options.onSuccess?.(data, variables),
+    onSettled: () => {
+      const queryKeys = [...(options.invalidates ?? [])];
+
+      if (options.optimistic) queryKeys.push(options.optimistic.queryKey);
+
+      return Promise.all(queryKeys.map((queryKey) => queryClient.invalidateQueries({ queryKey })));
+    },
+  });
+
+  const mutateAsync = (variables: TVariables): Promise<TData> => {
+    const controller = new AbortController();
+
+    controllers.current.add(controller);
+
+    return mutation
+      .mutateAsync({
+        variables,
+        init: { signal: controller.signal, headers: { [IDEMPOTENCY_HEADER]: crypto.randomUUID() } },
+      })
+      .finally(() => controllers.current.delete(controller));
+  };
+
+  // Fire and forget, the failure is still available as `error`
+  const mutate = (variables: TVariables) => {
+    mutateAsync(variables).catch(() => {});
+  };
+
+  const abort = () => {
+    for (const controller of controllers.current) controller.abort();
+  };
+
+  return {
+    mutate,
+    mutateAsync,
+    abort,
+    reset: mutation.reset,
+    data: mutation.data,
+    error: mutation.error,
+    // Keyed by dotted path, ready for useForm's setFieldErrors
+    fieldErrors: mutation.error instanceof ApiError ? mutation.error.fieldErrors : {},
+    isPending: mutation.isPending,
+    isSuccess: mutation.isSuccess,
+    isError: mutation.isError,
+  };
+}
@@ -0,0 +1,9 @@
+import { useUser } from '@/context/UserContext';
+import { hasPermission, type Permission } from '@/lib/permissions';
+
+// UI convenience only, the server still enforces every permission on its own
+export default function useCan(permission: Permission): boolean {
+  const { user } = useUser();
+
+  return hasPermission(user, permission);
+}
@@ -1,18 +1,221 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
+import type { z } from 'zod';
+import { ApiError } from '@/lib/apiClient';
+import { trackValidationError } from '@/lib/sentry';
 
-const useForm = <T extends Record<string, unknown>>() => {
-  const [form, setForm] = useState<T>({} as T);
+type FieldElement = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
 
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
+// Keyed by dotted path, the same shape as ApiError.fieldErrors so server errors slot in
+export type FieldErrors = Record<string, string[]>;
 
-    setForm((prev) => ({
-      ...prev,
-      [name]: value,
-    }));
+interface UseFormOptions<S extends z.ZodType> {
+  // Identifies the form in Sentry when a submit fails validation
+  name: string;
+  initialValues?: Partial<z.input<S>>;
+  // When a field starts showing its errors, after the first submit every field shows them
+  validateOn?: 'blur' | 'change';
+}
+
+function readValue(element: FieldElement): unknown {
+  if (element instanceof HTMLInputElement) {
+    if (element.type === 'checkbox') return element.checked;
+
+    if (element.type === 'number' || element.type === 'range') {
+      return Number.isNaN(element.valueAsNumber) ? undefined : element.valueAsNumber;
+    }
+  }
+
+  if (element instanceof HTMLSelectElement && element.multiple) {
+    return Array.from(element.selectedOptions, (option) => option.value);
+  }
+
+  return element.value;
+}
+
+function toFieldErrors(error: z.ZodError): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+
+  for (const issue of error.issues) {
+    const key = issue.path.map(String).join('.');
+    fieldErrors[key] = [...(fieldErrors[key] ?? []), issue.message];
+  }
+
+  return fieldErrors;
+}
+
+// The field a dotted error path belongs to, e.g. `items.0.name` -> `items`
+const fieldOf = (path: string) => path.split('.')[0];
+
+// By value one level deep, a multi-select or checkbox group holds a new array after every change
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => Object.is(item, b[index]));
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.hasOwn(b, key) && Object.is(a[key], b[key]))
+    );
+  }
+
+  return false;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Object.prototype.toString.call(value) === '[object Object]';
+}
+
+/**
+ * Form state driven by a zod schema from lib/validations.ts. Values are validated on every
+ * change, but a field's errors only show once it has been touched (on blur or change, see
+ * `validateOn`) or the form has been submitted. Field errors in an ApiError thrown from the
+ * submit handler are shown on their fields until the field changes.
+ */
+export default function useForm<S extends z.ZodType>(schema: S, options: UseFormOptions<S>) {
+  type Values = Partial<z.input<S>>;
+  type Field = Extract<keyof z.input<S>, string>;
+
+  const validateOn = options.validateOn ?? 'blur';
+
+  const [initialValues] = useState<Values>(() => ({ ...options.initialValues }) as Values);
+  const [values, setValues] = useState<Values>(initialValues);
+  const [touched, setTouched] = useState<Partial<Record<Field, boolean>>>({});
+  const [serverErrors, setServerErrors] = useState<FieldErrors>({});
+  const [formError, setFormError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitCount, setSubmitCount] = useState(0);
+
+  const validation = useMemo(() => schema.safeParse(values), [schema, values]);
+
+  const errors = useMemo(() => {
+    const visible: FieldErrors = {};
+
+    if (!validation.success) {
+      for (const [path, messages] of Object.entries(toFieldErrors(validation.error))) {
+        if (submitCount > 0 || touched[fieldOf(path) as Field]) visible[path] = messages;
+      }
+    }
+
+    for (const [path, messages] of Object.entries(serverErrors)) {
+      visible[path] = [...(visible[path] ?? []), ...messages];
+    }
+
+    return visible;
+  }, [validation, serverErrors, touched, submitCount]);
+
+  const dirty = useMemo(() => {
+    const changed: Partial<Record<Field, boolean>> = {};
+
+    for (const name of Object.keys(values) as Field[]) {
+      if (!isSameValue(values[name], initialValues[name])) changed[name] = true;
+    }
+
+    return changed;
+  }, [values, initialValues]);
+
+  const markTouched = (name: Field) => {
+    setTouched((prev) => (prev[name] ? prev : { ...prev, [name]: true }));
+  };
+
+  const setValue = <K extends Field>(name: K, value: z.input<S>[K]) => {
+    setValues((prev) => ({ ...prev, [name]: value }));
+
+    // A server error describes the value that was sent, not this one
+    setServerErrors((prev) =>
+      Object.fromEntries(Object.entries(prev).filter(([path]) => fieldOf(path) !== name))
+    );
+
+    if (validateOn === 'change') markTouched(name);
+  };
+
+  const handleChange = (e: React.ChangeEvent<FieldElement>) => {
+    setValue(e.target.name as Field, readValue(e.target) as z.input<S>[Field]);
+  };
+
+  const handleBlur = (e: React.FocusEvent<FieldElement>) => {
+    if (validateOn === 'blur') markTouched(e.target.name as Field);
+  };
+
+  // For text inputs, textareas and selects
+  const getFieldProps = (name: Field) => ({
+    name,
+    value: (values[name] ?? '') as string | number | readonly string[],
+    onChange: handleChange,
+    onBlur: handleBlur,
+    'aria-invalid': errors[name] ? true : undefined,
+  });
+
+  const getCheckboxProps = (name: Field) => ({
+    name,
+    type: 'checkbox' as const,
+    checked: values[name] === true,
+    onChange: handleChange,
+    onBlur: handleBlur,
+    'aria-invalid': errors[name] ? true : undefined,
+  });
+
+  const reset = () => {
+    setValues(initialValues);
+    setTouched({});
+    setServerErrors({});
+    setFormError('');
+    setSubmitCount(0);
   };
 
-  return { form, handleChange };
-};
+  const handleSubmit =
+    (onValid: (data: z.output<S>) => unknown | Promise<unknown>) => async (e?: React.FormEvent) => {
+      e?.preventDefault();
+
+      setSubmitCount((count) => count + 1);
+      setServerErrors({});
+      setFormError('');
 
-export default useForm;
+      const result = schema.safeParse(values);
+
+      if (!result.success) {
+        trackValidationError(toFieldErrors(result.error), options.name);
+        return;
+      }
+
+      setIsSubmitting(true);
+
+      try {
+        await onValid(result.data);
+      } catch (error) {
+        if (error instanceof ApiError && Object.keys(error.fieldErrors).length > 0) {
+          setServerErrors(error.fieldErrors);
+          trackValidationError(error.fieldErrors, options.name);
+        } else {
+          setFormError(error instanceof Error ? error.message : 'Something went wrong');
+        }
+      } finally {
+        setIsSubmitting(false);
+      }
+    };
+
+  return {
+    values,
+    errors,
+    touched,
+    dirty,
+    isDirty: Object.keys(dirty).length > 0,
+    isValid: validation.success,
+    isSubmitting,
+    submitCount,
+    // Failures that don't belong to a field, e.g. "Invalid email or password"
+    formError,
+    setValue,
+    setFieldErrors: setServerErrors,
+    handleChange,
+    handleBlur,
+    getFieldProps,
+    getCheckboxProps,
+    handleSubmit,
+    reset,
+  };
+}
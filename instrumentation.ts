@@ -0,0 +1,20 @@
+// Runs once when the server starts. Loading lib/config.ts validates the environment through
+// lib/env.ts, so a missing or weak secret stops the boot with every problem listed instead of
+// failing a request
+export async function register() {
+  const { DB_CONFIG } = await import('@/lib/config');
+
+  // The edge runtime has no Postgres driver, the Node.js server does the database work
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  // A failure stops the boot, so the container restarts instead of serving an older schema
+  if (DB_CONFIG.MIGRATE_ON_START) {
+    const { runMigrations } = await import('@/lib/migrations');
+    await runMigrations();
+  }
+
+  if (DB_CONFIG.SEED_ON_START) {
+    const { runSeeds } = await import('@/lib/seeds');
+    await runSeeds();
+  }
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from 'next/server';
+import type { ZodError } from 'zod';
+
+// Free of server-only imports so middleware.ts can answer with the same error shape
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+export interface ProblemFieldError {
+  // The zod issue path, e.g. ['confirmPassword'] or ['items', 0, 'name']
+  path: (string | number)[];
+  message: string;
+}
+
+// RFC 7807 problem details, the body of every error response the API sends
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance?: string;
+  errors?: ProblemFieldError[];
+}
+
+export interface ProblemOptions {
+  errors?: ProblemFieldError[];
+  headers?: Record<string, string>;
+  instance?: string;
+}
+
+const STATUS_TITLES: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  409: 'Conflict',
+  415: 'Unsupported Media Type',
+  422: 'Unprocessable Content',
+  423: 'Locked',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+};
+
+// Thrown from route handlers for expected failures, createHandler turns it into a problem response
+export class HttpError extends Error {
+  readonly status: number;
+  readonly errors?: ProblemFieldError[];
+  readonly headers?: Record<string, string>;
+
+  constructor(status: number, detail: string, options: Omit<ProblemOptions, 'instance'> = {}) {
+    super(detail);
+    this.name = 'HttpError';
+    this.status = status;
+    this.errors = options.errors;
+    this.headers = options.headers;
+  }
+}
+
+export function problemResponse(
+  status: number,
+  detail: string,
+  options: ProblemOptions = {}
+): NextResponse<ProblemDetails> {
+  const body: ProblemDetails = {
+    type: 'about:blank',
+    title: STATUS_TITLES[status] ?? 'Error',
+    status,
+    detail,
+  };
+
+  if (options.instance) body.instance = options.instance;
+  if (options.errors) body.errors = options.errors;
+
+  return NextResponse.json(body, {
+    status,
+    headers: { 'Content-Type': PROBLEM_CONTENT_TYPE, ...options.headers },
+  });
+}
+
+// For checks that fail outside the schema but still belong to one field, e.g. a wrong password
+export function fieldError(field: string, message: string): ProblemFieldError[] {
+  return [{ path: [field], message }];
+}
+
+export function zodIssuesToErrors(error: ZodError): ProblemFieldError[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.filter((segment) => typeof segment !== 'symbol'),
+    message: issue.message,
+  }));
+}
@@ -0,0 +1,138 @@
+import type { ZodType, z } from 'zod';
+import type { ProblemDetails } from '@/lib/api';
+import { CSRF_CONFIG } from '@/lib/constants';
+import type { HttpMethod } from '@/lib/openapi';
+import type { Serialized } from '@/lib/types';
+
+// Runtime for the generated client in lib/generated/apiClient.ts. Every type here is read off
+// the route handlers themselves, so a schema change shows up as a type error at the call site.
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly fieldErrors: Record<string, string[]>;
+
+  constructor(message: string, status: number, fieldErrors: Record<string, string[]> = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// Field errors keyed by dotted path, the shape form state uses
+function toFieldErrors(problem: Partial<ProblemDetails>): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {};
+
+  for (const { path, message } of problem.errors ?? []) {
+    const key = path.join('.');
+    fieldErrors[key] = [...(fieldErrors[key] ?? []), message];
+  }
+
+  return fieldErrors;
+}
+
+function getCsrfHeader(method: string): Record<string, string> {
+  const isSafe = CSRF_CONFIG.SAFE_METHODS.some((safe) => safe === method.toUpperCase());
+
+  if (isSafe || typeof document === 'undefined') return {};
+
+  const token = document.cookie
+    .split('; ')
+    .find((cookie) => cookie.startsWith(`${CSRF_CONFIG.COOKIE_NAME}=`))
+    ?.slice(CSRF_CONFIG.COOKIE_NAME.length + 1);
+
+  return token ? { [CSRF_CONFIG.HEADER_NAME]: decodeURIComponent(token) } : {};
+}
+
+export async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  let response: Response;
+
+  try {
+    response = await fetch(url, {
+      ...init,
+      credentials: 'same-origin',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getCsrfHeader(init?.method ?? 'GET'),
+        ...init?.headers,
+      },
+    });
+  } catch (error) {
+    // Aborts are the caller's doing, not a connectivity problem
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+
+    throw new ApiError('Network error. Please check your connection.', 0);
+  }
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const problem = data as Partial<ProblemDetails>;
+    throw new ApiError(
+      problem.detail || 'Something went wrong',
+      response.status,
+      toFieldErrors(problem)
+    );
+  }
+
+  return data as T;
+}
+
+type DefinitionField<H, K extends string> = H extends { definition: { [P in K]?: infer S } }
+  ? S
+  : undefined;
+
+type InputField<K extends string, S> = S extends ZodType
+  ? { [P in K]: z.input<S> }
+  : Record<never, never>;
+
+export type OperationInput<H> = InputField<'params', DefinitionField<H, 'params'>> &
+  InputField<'query', DefinitionField<H, 'query'>> &
+  InputField<'body', DefinitionField<H, 'body'>>;
+
+export type OperationOutput<H> = DefinitionField<H, 'response'> extends infer R extends ZodType
+  ? Serialized<z.input<R>>
+  : unknown;
+
+// The input can be left out entirely when the route takes none
+type OperationArgs<H> = keyof OperationInput<H> extends never
+  ? [input?: OperationInput<H>, init?: RequestInit]
+  : [input: OperationInput<H>, init?: RequestInit];
+
+function buildUrl(
+  path: string,
+  params: Record<string, unknown> = {},
+  query: Record<string, unknown> = {}
+): string {
+  const url = path.replace(/\{(\w+)\}/g, (_, name: string) =>
+    encodeURIComponent(String(params[name]))
+  );
+  const search = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(query)) {
+    for (const item of [value].flat()) {
+      if (item !== undefined) search.append(key, String(item));
+    }
+  }
+
+  const queryString = search.toString();
+
+  return queryString ? `${url}?${queryString}` : url;
+}
+
+// H is the type of a route export, e.g. `typeof import('@/app/api/auth/login/route').POST`
+export function createOperation<H>(method: HttpMethod, path: string) {
+  return (...[input, init]: OperationArgs<H>): Promise<OperationOutput<H>> => {
+    const { params, query, body } = (input ?? {}) as {
+      params?: Record<string, unknown>;
+      query?: Record<string, unknown>;
+      body?: unknown;
+    };
+
+    return request<OperationOutput<H>>(buildUrl(path, params, query), {
+      ...init,
+      method,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  };
+}
@@ -0,0 +1,285 @@
+import { createHash } from 'node:crypto';
+import { and, asc, desc, eq, gt, gte, lt, lte, type SQL, sql } from 'drizzle-orm';
+import type { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '@/lib/constants';
+import { db } from '@/lib/db';
+import { auditEventsTable } from '@/lib/schema';
+import { captureException } from '@/lib/sentry';
+import { getSessionMetadata, type SessionMetadata } from '@/lib/sessions';
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export type AuditTargetType = (typeof AUDIT_TARGET_TYPES)[number];
+
+export type AuditEventRecord = typeof auditEventsTable.$inferSelect;
+
+type NoMetadata = Record<string, never>;
+
+// Ends up in exports, so never anything secret like a token or a code
+export interface AuditMetadata {
+  'auth.register': NoMetadata;
+  'auth.login': { method: 'password' | 'mfa' | 'passkey' | 'oauth'; provider?: string };
+  'auth.login_failed': {
+    email?: string;
+    reason: 'invalid_credentials' | 'locked' | 'invalid_code';
+  };
+  'auth.logout': NoMetadata;
+  'auth.token_refresh': NoMetadata;
+  'auth.token_reuse': NoMetadata;
+  'auth.password_change': NoMetadata;
+  'auth.password_reset_request': NoMetadata;
+  'auth.password_reset': NoMetadata;
+  'auth.email_verify': NoMetadata;
+  'auth.mfa_enable': NoMetadata;
+  'auth.mfa_disable': NoMetadata;
+  'auth.recovery_codes_regenerate': NoMetadata;
+  'auth.passkey_register': NoMetadata;
+  'auth.passkey_delete': NoMetadata;
+  'auth.session_revoke': { count: number };
+  'audit.export': { format: AuditExportFormat; filters: Record<string, unknown> };
+}
+
+export interface AuditEventInput<A extends AuditAction> {
+  action: A;
+  // Null for anonymous requests, e.g. a failed login
+  actorId?: number | string | null;
+  target?: { type: AuditTargetType; id: number | string };
+  metadata?: AuditMetadata[A];
+}
+
+export interface AuditEventFilters {
+  actorId?: number;
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export type AuditExportFormat = 'csv' | 'jsonl';
+
+// Arbitrary, but shared by every instance so appends to the chain happen one at a time
+const AUDIT_CHAIN_LOCK_ID = 4_823_018;
+
+const EXPORT_BATCH_SIZE = 500;
+
+// Sorted keys, since jsonb doesn't keep the order metadata was written in
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+
+  return value;
+}
+
+type HashedFields = Omit<AuditEventRecord, 'id' | 'hash'>;
+
+function hashEvent(fields: HashedFields): string {
+  return createHash('sha256')
+    .update(JSON.stringify(canonicalize({ ...fields, createdAt: fields.createdAt.toISOString() })))
+    .digest('hex');
+}
+
+// Outside a request, e.g. in a seed or a script, there are no headers to read
+async function getRequestMetadata(): Promise<SessionMetadata> {
+  try {
+    return await getSessionMetadata();
+  } catch {
+    return { userAgent: null, ipAddress: null };
+  }
+}
+
+async function append(fields: Omit<HashedFields, 'previousHash'>): Promise<void> {
+  await db.write.transaction(async (tx) => {
+    // Each event chains onto the latest one, so concurrent writers have to take turns
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_ID})`);
+
+    const [latest] = await tx
+      .select({ hash: auditEventsTable.hash })
+      .from(auditEventsTable)
+      .orderBy(desc(auditEventsTable.id))
+      .limit(1);
+
+    const chained = { ...fields, previousHash: latest?.hash ?? null };
+
+    await tx.insert(auditEventsTable).values({ ...chained, hash: hashEvent(chained) });
+  });
+}
+
+export const audit = {
+  /**
+   * Appends an event, with the IP and user agent of the current request. Never throws: a
+   * database hiccup is reported to Sentry rather than failing the sign-in it describes.
+   */
+  record: async <A extends AuditAction>({
+    action,
+    actorId,
+    target,
+    metadata,
+  }: AuditEventInput<A>): Promise<void> => {
+    try {
+      await append({
+        actorId: actorId == null ? null : Number(actorId),
+        action,
+        targetType: target?.type ?? null,
+        targetId: target ? String(target.id) : null,
+        ...(await getRequestMetadata()),
+        metadata: metadata ?? {},
+        // Milliseconds, the precision that survives the round trip through Postgres
+        createdAt: new Date(),
+      });
+    } catch (error) {
+      captureException(error as Error, { component: 'audit', action });
+    }
+  },
+};
+
+function filterConditions(filters: AuditEventFilters): SQL[] {
+  const { actorId, action, targetType, targetId, from, to } = filters;
+
+  return [
+    actorId === undefined ? undefined : eq(auditEventsTable.actorId, actorId),
+    action === undefined ? undefined : eq(auditEventsTable.action, action),
+    targetType === undefined ? undefined : eq(auditEventsTable.targetType, targetType),
+    targetId === undefined ? undefined : eq(auditEventsTable.targetId, targetId),
+    from === undefined ? undefined : gte(auditEventsTable.createdAt, from),
+    to === undefined ? undefined : lte(auditEventsTable.createdAt, to),
+  ].filter((condition) => condition !== undefined);
+}
+
+/**
+ * Newest first. `nextCursor` is the id to pass as `cursor` for the following page, null on the
+ * last one. Reads from the replica, a few seconds of lag don't matter for an audit trail.
+ */
+export async function listAuditEvents(
+  filters: AuditEventFilters,
+  { cursor, limit }: { cursor?: number; limit: number }
+): Promise<{ events: AuditEventRecord[]; nextCursor: number | null }> {
+  const rows = await db.read
+    .select()
+    .from(auditEventsTable)
+    .where(
+      and(
+        ...filterConditions(filters),
+        cursor === undefined ? undefined : lt(auditEventsTable.id, cursor)
+      )
+    )
+    .orderBy(desc(auditEventsTable.id))
+    // One extra row tells whether there is another page
+    .limit(limit + 1);
+
+  const events = rows.slice(0, limit);
+
+  return { events, nextCursor: rows.length > limit ? events[events.length - 1].id : null };
+}
+
+// Oldest first, in batches, so the export never holds the whole table in memory
+async function* iterateAuditEvents(filters: AuditEventFilters): AsyncGenerator<AuditEventRecord> {
+  let afterId = 0;
+
+  while (true) {
+    const rows = await db.read
+      .select()
+      .from(auditEventsTable)
+      .where(and(...filterConditions(filters), gt(auditEventsTable.id, afterId)))
+      .orderBy(asc(auditEventsTable.id))
+      .limit(EXPORT_BATCH_SIZE);
+
+    yield* rows;
+
+    if (rows.length < EXPORT_BATCH_SIZE) return;
+
+    afterId = rows[rows.length - 1].id;
+  }
+}
+
+const CSV_COLUMNS = [
+  'id',
+  'createdAt',
+  'actorId',
+  'action',
+  'targetType',
+  'targetId',
+  'ipAddress',
+  'userAgent',
+  'metadata',
+  'previousHash',
+  'hash',
+] as const satisfies (keyof AuditEventRecord)[];
+
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  let text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+
+  // User agents are attacker controlled, spreadsheets would run a leading = + - @ as a formula
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+function formatEvent(event: AuditEventRecord, format: AuditExportFormat): string {
+  return format === 'csv'
+    ? `${CSV_COLUMNS.map((column) => toCsvField(event[column])).join(',')}\r\n`
+    : `${JSON.stringify(event)}\n`;
+}
+
+// Streamed, an export of the whole table can run into the millions of rows
+export function exportAuditEvents(
+  filters: AuditEventFilters,
+  format: AuditExportFormat
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const events = iterateAuditEvents(filters);
+
+  return new ReadableStream({
+    start(controller) {
+      if (format === 'csv') controller.enqueue(encoder.encode(`${CSV_COLUMNS.join(',')}\r\n`));
+    },
+    async pull(controller) {
+      const next = await events.next();
+
+      if (next.done) {
+        controller.close();
+        return;
+      }
+
+      controller.enqueue(encoder.encode(formatEvent(next.value, format)));
+    },
+    async cancel() {
+      await events.return(undefined);
+    },
+  });
+}
+
+export type AuditChainResult =
+  | { valid: true; checked: number }
+  | { valid: false; checked: number; brokenAt: number };
+
+// Recomputes every hash from the first event on. The first mismatch is where the log was altered,
+// either the row itself or one removed before it.
+export async function verifyAuditChain(): Promise<AuditChainResult> {
+  let previousHash: string | null = null;
+  let checked = 0;
+
+  for await (const { id, hash, ...fields } of iterateAuditEvents({})) {
+    if (fields.previousHash !== previousHash || hashEvent(fields) !== hash) {
+      return { valid: false, checked, brokenAt: id };
+    }
+
+    previousHash = hash;
+    checked++;
+  }
+
+  return { valid: true, checked };
+}
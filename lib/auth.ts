@@ -1,11 +1,19 @@
+import { createHash } from 'node:crypto';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import { cookies } from 'next/headers';
-import { JWT_CONFIG } from '@/lib/constants';
+import { cookies, headers } from 'next/headers';
+import { JWT_CONFIG } from '@/lib/config';
+import { AUTH_HEADERS } from '@/lib/constants';
+import { getAccessKeyring, getRefreshKeyring, signJwt, verifyJwt } from '@/lib/keyring';
+import type { Permission } from '@/lib/permissions';
 
 export interface JWTPayload {
   userId: string;
   email: string;
+  // Carried in the token so permission checks don't need a database round-trip
+  roles: string[];
+  permissions: Permission[];
+  // The sessions row this token was issued for, see lib/sessions.ts
+  sessionId: string;
   iat?: number;
   exp?: number;
 }
@@ -17,40 +25,80 @@ export interface RefreshTokenPayload {
   exp?: number;
 }
 
+export interface MfaTokenPayload {
+  userId: string;
+  iat?: number;
+  exp?: number;
+}
+
+// Signed for separate audiences so they are rejected anywhere an access token is expected, and
+// the other way round, even when both keyrings share a key
+const MFA_TOKEN_AUDIENCE = `${JWT_CONFIG.AUDIENCE}:mfa`;
+const REFRESH_TOKEN_AUDIENCE = `${JWT_CONFIG.AUDIENCE}:refresh`;
+
+const PASSWORD_HASH_ROUNDS = 12;
+
+// Hash of a random value nobody knows, compared against when there is no real hash so the
+// response takes as long as for an account that has one
+const DUMMY_PASSWORD_HASH = '$2b$12$8SR3Ub7pLTKvW642.G1SDuQnF5iB2GNahOvb0Xun/yX.j5OMQgat.';
+
 export async function hashPassword(password: string): Promise<string> {
-  return bcrypt.hash(password, 12);
+  return bcrypt.hash(password, PASSWORD_HASH_ROUNDS);
 }
 
-export async function verifyPassword(password: string, hashedPassword: string): Promise<boolean> {
+// Unknown users and accounts created through OAuth have no password, so they can never match one
+export async function verifyPassword(
+  password: string,
+  hashedPassword: string | null | undefined
+): Promise<boolean> {
+  if (!hashedPassword) {
+    await bcrypt.compare(password, DUMMY_PASSWORD_HASH);
+    return false;
+  }
+
   return bcrypt.compare(password, hashedPassword);
 }
 
-export function generateAccessToken(payload: JWTPayload): string {
-  return jwt.sign(payload, JWT_CONFIG.SECRET, {
-    expiresIn: JWT_CONFIG.ACCESS_TOKEN_EXPIRES_IN as jwt.SignOptions['expiresIn'],
-  });
+export async function generateAccessToken(payload: JWTPayload): Promise<string> {
+  const { userId, email, roles, permissions, sessionId } = payload;
+
+  return signJwt(
+    { userId, email, roles, permissions, sessionId },
+    getAccessKeyring(),
+    JWT_CONFIG.ACCESS_TOKEN_EXPIRES_IN
+  );
 }
 
-export function generateRefreshToken(payload: RefreshTokenPayload): string {
-  return jwt.sign(payload, JWT_CONFIG.REFRESH_SECRET, {
-    expiresIn: JWT_CONFIG.REFRESH_TOKEN_EXPIRES_IN as jwt.SignOptions['expiresIn'],
-  });
+export async function generateRefreshToken(payload: RefreshTokenPayload): Promise<string> {
+  const { userId, tokenId } = payload;
+
+  return signJwt(
+    { userId, tokenId },
+    getRefreshKeyring(),
+    JWT_CONFIG.REFRESH_TOKEN_EXPIRES_IN,
+    REFRESH_TOKEN_AUDIENCE
+  );
 }
 
-export function verifyAccessToken(token: string): JWTPayload | null {
-  try {
-    return jwt.verify(token, JWT_CONFIG.SECRET) as JWTPayload;
-  } catch {
-    return null;
-  }
+export async function generateMfaToken(payload: MfaTokenPayload): Promise<string> {
+  return signJwt(
+    { userId: payload.userId },
+    getAccessKeyring(),
+    JWT_CONFIG.MFA_TOKEN_EXPIRES_IN,
+    MFA_TOKEN_AUDIENCE
+  );
 }
 
-export function verifyRefreshToken(token: string): RefreshTokenPayload | null {
-  try {
-    return jwt.verify(token, JWT_CONFIG.REFRESH_SECRET) as RefreshTokenPayload;
-  } catch {
-    return null;
-  }
+export async function verifyAccessToken(token: string): Promise<JWTPayload | null> {
+  return verifyJwt<JWTPayload>(token, getAccessKeyring());
+}
+
+export async function verifyRefreshToken(token: string): Promise<RefreshTokenPayload | null> {
+  return verifyJwt<RefreshTokenPayload>(token, getRefreshKeyring(), REFRESH_TOKEN_AUDIENCE);
+}
+
+export async function verifyMfaToken(token: string): Promise<MfaTokenPayload | null> {
+  return verifyJwt<MfaTokenPayload>(token, getAccessKeyring(), MFA_TOKEN_AUDIENCE);
 }
 
 export function generateVerificationToken(): string {
@@ -61,6 +109,10 @@ export function generateResetToken(): string {
   return crypto.randomUUID();
 }
 
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
 export async function setAuthCookies(accessToken: string, refreshToken: string): Promise<void> {
   const cookieStore = await cookies();
 
@@ -95,3 +147,32 @@ export async function getRefreshToken(): Promise<string | undefined> {
   const cookieStore = await cookies();
   return cookieStore.get('refresh_token')?.value;
 }
+
+function splitHeader(value: string | null): string[] {
+  return value ? value.split(',') : [];
+}
+
+export async function getSession(): Promise<JWTPayload | null> {
+  const headerStore = await headers();
+  const userId = headerStore.get(AUTH_HEADERS.USER_ID);
+  const email = headerStore.get(AUTH_HEADERS.USER_EMAIL);
+  const sessionId = headerStore.get(AUTH_HEADERS.SESSION_ID);
+
+  // Already verified by middleware.ts, which strips these headers from incoming requests
+  if (userId && email && sessionId) {
+    return {
+      userId,
+      email,
+      roles: splitHeader(headerStore.get(AUTH_HEADERS.USER_ROLES)),
+      permissions: splitHeader(headerStore.get(AUTH_HEADERS.USER_PERMISSIONS)) as Permission[],
+      sessionId,
+    };
+  }
+
+  const accessToken = await getAccessToken();
+  const claims = accessToken ? await verifyAccessToken(accessToken) : null;
+
+  // Tokens from before sessions were tracked have no session to exclude or revoke, see
+  // middleware.ts
+  return claims?.sessionId ? claims : null;
+}
@@ -0,0 +1,159 @@
+import {
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  startAuthentication,
+  startRegistration,
+} from '@simplewebauthn/browser';
+import { ApiError } from '@/lib/apiClient';
+import { api } from '@/lib/generated/apiClient';
+import type {
+  ChangePasswordInput,
+  ForgotPasswordInput,
+  LoginInput,
+  MfaCodeInput,
+  MfaVerifyInput,
+  PasskeyAuthenticationInput,
+  PasskeyRegistrationInput,
+  RegisterInput,
+  ResetPasswordInput,
+  VerifyEmailInput,
+} from '@/lib/validations';
+
+// Accounts with two-factor enabled get a short-lived token instead of a session
+export type LoginResult = Awaited<ReturnType<typeof api.login>>;
+
+// As the browser sees them, with dates as ISO strings
+export type ClientUser = Awaited<ReturnType<typeof api.getCurrentUser>>['user'];
+
+export type ClientPasskey = Awaited<ReturnType<typeof api.listPasskeys>>['passkeys'][number];
+
+export const authAPI = {
+  login: async (input: LoginInput) => {
+    return api.login({ body: input });
+  },
+
+  verifyMfa: async (input: MfaVerifyInput) => {
+    const { user } = await api.verifyMfa({ body: input });
+    return user;
+  },
+
+  setupTotp: async () => {
+    return api.setupTotp();
+  },
+
+  enableTotp: async (input: MfaCodeInput) => {
+    const { recoveryCodes } = await api.enableTotp({ body: input });
+    return recoveryCodes;
+  },
+
+  disableTotp: async (input: MfaCodeInput) => {
+    await api.disableTotp({ body: input });
+  },
+
+  // Runs the whole WebAuthn ceremony, the browser prompt included. The schemas on both sides only
+  // pin the envelope, the rest of the WebAuthn shapes belong to @simplewebauthn.
+  registerPasskey: async (name?: string) => {
+    const optionsJSON = await api.getPasskeyRegistrationOptions();
+    const response = await startRegistration({
+      optionsJSON: optionsJSON as PublicKeyCredentialCreationOptionsJSON,
+    });
+    const { passkey } = await api.verifyPasskeyRegistration({
+      body: { name, response } as PasskeyRegistrationInput,
+    });
+    return passkey;
+  },
+
+  loginWithPasskey: async () => {
+    const optionsJSON = await api.getPasskeyLoginOptions();
+    const response = await startAuthentication({
+      optionsJSON: optionsJSON as PublicKeyCredentialRequestOptionsJSON,
+    });
+    return api.verifyPasskeyLogin({ body: { response } as PasskeyAuthenticationInput });
+  },
+
+  listPasskeys: async () => {
+    const { passkeys } = await api.listPasskeys();
+    return passkeys;
+  },
+
+  deletePasskey: async (id: number) => {
+    await api.deletePasskey({ params: { id } });
+  },
+
+  regenerateRecoveryCodes: async (input: MfaCodeInput) => {
+    const { recoveryCodes } = await api.regenerateRecoveryCodes({ body: input });
+    return recoveryCodes;
+  },
+
+  register: async (input: RegisterInput) => {
+    const { user } = await api.register({ body: input });
+    return user;
+  },
+
+  logout: async () => {
+    await api.logout();
+  },
+
+  refresh: async () => {
+    const { user } = await api.refresh();
+    return user;
+  },
+
+  changePassword: async (input: ChangePasswordInput) => {
+    await api.changePassword({ body: input });
+  },
+
+  listSessions: async () => {
+    const { sessions } = await api.listSessions();
+    return sessions;
+  },
+
+  revokeSession: async (id: string) => {
+    await api.revokeSession({ params: { id } });
+  },
+
+  // Signs out every other device, the current session stays
+  revokeOtherSessions: async () => {
+    const { revoked } = await api.revokeOtherSessions();
+    return revoked;
+  },
+
+  requestEmailVerification: async () => {
+    await api.requestEmailVerification();
+  },
+
+  verifyEmail: async (input: VerifyEmailInput) => {
+    await api.verifyEmail({ body: input });
+  },
+
+  forgotPassword: async (input: ForgotPasswordInput) => {
+    await api.forgotPassword({ body: input });
+  },
+
+  resetPassword: async (input: ResetPasswordInput) => {
+    await api.resetPassword({ body: input });
+  },
+
+  // Resolves to null when there is no session, trying the refresh cookie once
+  // before giving up since the access token is much shorter-lived
+  getCurrentUser: async (): Promise<ClientUser | null> => {
+    try {
+      const { user } = await api.getCurrentUser();
+      return user;
+    } catch (error) {
+      if (!(error instanceof ApiError) || error.status !== 401) throw error;
+    }
+
+    try {
+      return await authAPI.refresh();
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401) return null;
+      // Another tab or request rotated the token first and already set fresh cookies
+      if (error instanceof ApiError && error.status === 409) {
+        const { user } = await api.getCurrentUser();
+        return user;
+      }
+      throw error;
+    }
+  },
+};
@@ -0,0 +1,148 @@
+import { CSRF_CONFIG } from '@/lib/constants';
+import { env } from '@/lib/env';
+
+// Settings derived from the validated environment. Server-only, like lib/env.ts, client code
+// takes its constants from lib/constants.ts
+
+export const JWT_CONFIG = {
+  ACCESS_TOKEN_EXPIRES_IN: env.JWT_EXPIRES_IN,
+  REFRESH_TOKEN_EXPIRES_IN: env.JWT_REFRESH_EXPIRES_IN,
+  // Bridges the password step and the second factor, never grants access on its own
+  MFA_TOKEN_EXPIRES_IN: '5m',
+  SESSION_EXPIRES_IN_DAYS: 7,
+  REFRESH_REUSE_GRACE_SECONDS: 10,
+  SECRET: env.JWT_SECRET,
+  REFRESH_SECRET: env.JWT_REFRESH_SECRET,
+  // Optional JSON keyrings that take over from the single secrets above, see lib/keyring.ts
+  KEYS: env.JWT_KEYS,
+  REFRESH_KEYS: env.JWT_REFRESH_KEYS,
+  ISSUER: env.JWT_ISSUER,
+  AUDIENCE: env.JWT_AUDIENCE,
+} as const;
+
+export const APP_CONFIG = {
+  NAME: 'Next Boiler',
+  DESCRIPTION: 'Next.js Boilerplate Application',
+  URL: env.APP_URL,
+  ENVIRONMENT: env.NODE_ENV,
+  PORT: env.PORT,
+  HOSTNAME: env.HOSTNAME,
+  // Where the server reaches itself without going through the proxies again, which would add
+  // their own hop to X-Forwarded-For
+  INTERNAL_URL: env.INTERNAL_APP_URL ?? `http://localhost:${env.PORT}`,
+  // Reverse proxies in front of the app that append to X-Forwarded-For, see getClientIp
+  TRUSTED_PROXY_HOPS: env.TRUSTED_PROXY_HOPS,
+  GOOGLE_TAG_MANAGER_ID: env.GOOGLE_TAG_MANAGER_ID ?? '',
+} as const;
+
+// Cross-origin clients allowed to call the API with credentials, APP_URL is always allowed
+export const CORS_CONFIG = {
+  // A production deployment lists its cross-origin clients explicitly, or has none
+  ORIGINS: env.CORS_ORIGIN ?? (env.NODE_ENV === 'production' ? [] : ['http://localhost:3000']),
+  METHODS: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
+  ALLOWED_HEADERS: ['Content-Type', 'Idempotency-Key', CSRF_CONFIG.HEADER_NAME],
+  EXPOSED_HEADERS: [
+    'RateLimit-Limit',
+    'RateLimit-Remaining',
+    'RateLimit-Reset',
+    'Retry-After',
+    'Idempotent-Replayed',
+  ],
+  PREFLIGHT_MAX_AGE_SECONDS: 600,
+} as const;
+
+export const CSP_CONFIG = {
+  // Violations are reported but nothing is blocked, for trying out a policy change first
+  REPORT_ONLY: env.CSP_REPORT_ONLY,
+  REPORT_URI: '/api/csp-report',
+  // Set by middleware.ts on the request, read by app/layout.tsx for the scripts it renders
+  NONCE_HEADER: 'x-nonce',
+} as const;
+
+export const DB_CONFIG = {
+  URL: env.DATABASE_URL,
+  HOST: env.DATABASE_HOST,
+  PORT: env.DATABASE_PORT,
+  NAME: env.DATABASE_NAME,
+  USER: env.DATABASE_USER,
+  PASSWORD: env.DATABASE_PASSWORD,
+  // Optional replica behind `db.read`, everything else stays on the primary
+  READ_URL: env.DATABASE_READ_URL,
+  // disable | require (encrypted, certificate not checked) | verify-full (checked against the
+  // system CAs or SSL_CA). An sslmode in the URL takes precedence.
+  SSL: env.DATABASE_SSL,
+  // PEM contents or a path to a PEM file
+  SSL_CA: env.DATABASE_SSL_CA,
+  // Per pool, a replica gets a pool of the same size
+  POOL_MAX: env.DATABASE_POOL_MAX,
+  POOL_MIN: env.DATABASE_POOL_MIN,
+  IDLE_TIMEOUT_MS: env.DATABASE_IDLE_TIMEOUT_MS,
+  CONNECTION_TIMEOUT_MS: env.DATABASE_CONNECTION_TIMEOUT_MS,
+  STATEMENT_TIMEOUT_MS: env.DATABASE_STATEMENT_TIMEOUT_MS,
+  // Queries slower than this are logged, 0 turns the log off
+  SLOW_QUERY_MS: env.DATABASE_SLOW_QUERY_MS,
+  // Run by instrumentation.ts before the server takes requests, see lib/migrations.ts and
+  // lib/seeds.ts
+  MIGRATE_ON_START: env.DATABASE_MIGRATE_ON_START,
+  SEED_ON_START: env.DATABASE_SEED_ON_START,
+} as const;
+
+export const AUTH_CONFIG = {
+  COOKIE_SECRET: env.COOKIE_SECRET,
+  EMAIL_VERIFICATION_EXPIRES_IN_MINUTES: 24 * 60,
+  PASSWORD_RESET_EXPIRES_IN_MINUTES: 60,
+  // Failed logins before the account locks, the lock then doubles with every further failure
+  LOCKOUT_THRESHOLD: 5,
+  LOCKOUT_BASE_SECONDS: 60,
+  LOCKOUT_MAX_SECONDS: 24 * 60 * 60,
+  // Encrypts TOTP secrets at rest, rotating it invalidates every enrolled authenticator
+  MFA_ENCRYPTION_KEY: env.MFA_ENCRYPTION_KEY,
+  MFA_ISSUER: env.MFA_ISSUER || APP_CONFIG.NAME,
+  MFA_RECOVERY_CODE_COUNT: 10,
+  // Passkeys are bound to the RP ID, changing it orphans every registered credential
+  WEBAUTHN_RP_ID: env.WEBAUTHN_RP_ID || new URL(APP_CONFIG.URL).hostname,
+  WEBAUTHN_ORIGIN: env.WEBAUTHN_ORIGIN || new URL(APP_CONFIG.URL).origin,
+  WEBAUTHN_CHALLENGE_EXPIRES_IN_MINUTES: 5,
+} as const;
+
+export const EXTERNAL_SERVICES = {
+  REDIS_URL: env.REDIS_URL,
+  RATE_LIMIT_STORE: env.RATE_LIMIT_STORE ?? (env.NODE_ENV === 'production' ? 'redis' : 'memory'),
+  // Replayed responses have to be visible to every instance, like rate limits
+  IDEMPOTENCY_STORE:
+    env.IDEMPOTENCY_STORE ??
+    env.RATE_LIMIT_STORE ??
+    (env.NODE_ENV === 'production' ? 'redis' : 'memory'),
+  MAIL_TRANSPORT: env.MAIL_TRANSPORT ?? (env.NODE_ENV === 'production' ? 'smtp' : 'console'),
+  SMTP: {
+    HOST: env.SMTP_HOST ?? 'localhost',
+    PORT: env.SMTP_PORT,
+    USER: env.SMTP_USER,
+    PASS: env.SMTP_PASS,
+    FROM: env.SMTP_FROM,
+  },
+} as const;
+
+export const HEALTH_CONFIG = {
+  // Unlocks the per-probe details of /api/health/*, without it only the overall status is shown
+  TOKEN: env.HEALTH_CHECK_TOKEN ?? '',
+  PROBE_TIMEOUT_MS: 2000,
+} as const;
+
+export const API_KEYS = {
+  GOOGLE: {
+    CLIENT_ID: env.GOOGLE_CLIENT_ID,
+    CLIENT_SECRET: env.GOOGLE_CLIENT_SECRET,
+  },
+  // Points the generic OIDC provider at a local server, e.g. `npm run oidc:mock`
+  OIDC_MOCK: {
+    ISSUER: env.OIDC_MOCK_ISSUER ?? '',
+    CLIENT_ID: env.OIDC_MOCK_CLIENT_ID,
+    CLIENT_SECRET: env.OIDC_MOCK_CLIENT_SECRET,
+  },
+} as const;
+
+export const MONITORING = {
+  SENTRY_DSN: env.SENTRY_DSN ?? '',
+  ANALYTICS_ID: env.ANALYTICS_ID,
+} as const;
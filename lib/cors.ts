@@ -0,0 +1,49 @@
+import { APP_CONFIG, CORS_CONFIG } from '@/lib/config';
+
+// Kept free of Node-only APIs, middleware.ts applies the policy to every /api request
+
+function toOrigin(url: string | null): string | null {
+  if (!url) return null;
+
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The origin a browser request was sent from. Browsers always send Origin on cross-origin and
+ * state-changing requests, Referer covers the few that strip it. Non-browser clients send
+ * neither, the CSRF token still has to match for them.
+ */
+export function getRequestOrigin(request: Request): string | null {
+  return toOrigin(request.headers.get('origin')) ?? toOrigin(request.headers.get('referer'));
+}
+
+export function isAllowedOrigin(origin: string, ownOrigin: string): boolean {
+  return (
+    origin === ownOrigin ||
+    origin === toOrigin(APP_CONFIG.URL) ||
+    CORS_CONFIG.ORIGINS.some((allowed) => toOrigin(allowed) === origin)
+  );
+}
+
+export function getCorsHeaders(origin: string): Record<string, string> {
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Credentials': 'true',
+    'Access-Control-Expose-Headers': CORS_CONFIG.EXPOSED_HEADERS.join(', '),
+    // The allowed origin depends on the request, so caches must not share the response
+    Vary: 'Origin',
+  };
+}
+
+export function getPreflightHeaders(origin: string): Record<string, string> {
+  return {
+    ...getCorsHeaders(origin),
+    'Access-Control-Allow-Methods': CORS_CONFIG.METHODS.join(', '),
+    'Access-Control-Allow-Headers': CORS_CONFIG.ALLOWED_HEADERS.join(', '),
+    'Access-Control-Max-Age': String(CORS_CONFIG.PREFLIGHT_MAX_AGE_SECONDS),
+  };
+}
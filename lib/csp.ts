@@ -0,0 +1,114 @@
+import { base64url } from 'jose';
+import { publicEnv } from '@/lib/publicEnv';
+
+// Kept free of Node-only APIs, middleware.ts builds the policy for every page request
+
+export type CspDirective =
+  | 'default-src'
+  | 'script-src'
+  | 'style-src'
+  | 'img-src'
+  | 'font-src'
+  | 'connect-src'
+  | 'frame-src'
+  | 'worker-src'
+  | 'object-src'
+  | 'base-uri'
+  | 'form-action'
+  | 'frame-ancestors'
+  | 'upgrade-insecure-requests';
+
+export type CspSource =
+  | "'self'"
+  | "'none'"
+  | "'unsafe-inline'"
+  | "'unsafe-eval'"
+  | "'strict-dynamic'"
+  | `'nonce-${string}'`
+  | 'data:'
+  | 'blob:'
+  | 'ws:'
+  | `https://${string}`;
+
+// Source lists per directive, `true` for directives that take no value
+export type CspPolicy = Partial<Record<CspDirective, CspSource[] | true>>;
+
+export interface CspOptions {
+  // Added to script-src, Next.js picks it up from the request header for its own scripts
+  nonce: string;
+  // Sent both as report-uri and as the `csp-endpoint` group for the Reporting API
+  reportUri?: string;
+}
+
+export const CSP_REPORT_GROUP = 'csp-endpoint';
+
+const isDevelopment = process.env.NODE_ENV === 'development';
+
+function getSentryOrigins(): CspSource[] {
+  try {
+    const { origin } = new URL(publicEnv.NEXT_PUBLIC_SENTRY_DSN ?? '');
+    return origin.startsWith('https://') ? [origin as CspSource] : [];
+  } catch {
+    return [];
+  }
+}
+
+export const CSP_POLICY: CspPolicy = {
+  'default-src': ["'self'"],
+  // strict-dynamic lets the nonced GTM loader add the tags it manages, browsers that support it
+  // ignore the host list, which only remains as a fallback
+  'script-src': [
+    "'self'",
+    "'strict-dynamic'",
+    'https://www.googletagmanager.com',
+    // React's development build evaluates code for its debugging tools
+    ...(isDevelopment ? (["'unsafe-eval'"] as const) : []),
+  ],
+  // Next.js and React inject style attributes that can't carry a nonce
+  'style-src': ["'self'", "'unsafe-inline'"],
+  'img-src': [
+    "'self'",
+    'data:',
+    'blob:',
+    'https://www.googletagmanager.com',
+    'https://*.google-analytics.com',
+  ],
+  'font-src': ["'self'"],
+  'connect-src': [
+    "'self'",
+    'https://*.google-analytics.com',
+    'https://*.analytics.google.com',
+    'https://*.googletagmanager.com',
+    ...getSentryOrigins(),
+    // Hot reloading
+    ...(isDevelopment ? (['ws:'] as const) : []),
+  ],
+  'frame-src': ['https://www.googletagmanager.com'],
+  // Sentry session replay compresses recordings in a blob worker
+  'worker-src': ["'self'", 'blob:'],
+  'object-src': ["'none'"],
+  'base-uri': ["'self'"],
+  'form-action': ["'self'"],
+  'frame-ancestors': ["'none'"],
+  ...(isDevelopment ? {} : { 'upgrade-insecure-requests': true }),
+};
+
+export function generateNonce(): string {
+  return base64url.encode(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+export function buildCsp(policy: CspPolicy, { nonce, reportUri }: CspOptions): string {
+  const scriptSources = policy['script-src'];
+  const directives: CspPolicy = {
+    ...policy,
+    'script-src': [...(Array.isArray(scriptSources) ? scriptSources : []), `'nonce-${nonce}'`],
+  };
+
+  const parts = Object.entries(directives).map(([name, sources]) =>
+    sources === true ? name : `${name} ${sources.join(' ')}`
+  );
+
+  if (reportUri) parts.push(`report-uri ${reportUri}`, `report-to ${CSP_REPORT_GROUP}`);
+
+  return parts.join('; ');
+}
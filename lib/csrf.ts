@@ -0,0 +1,75 @@
+import { base64url } from 'jose';
+import type { NextRequest } from 'next/server';
+import { AUTH_CONFIG } from '@/lib/config';
+import { CSRF_CONFIG } from '@/lib/constants';
+
+// Kept free of Node-only APIs so middleware can issue and check tokens on the Edge runtime
+
+const encoder = new TextEncoder();
+
+let keyPromise: Promise<CryptoKey> | undefined;
+
+function getKey(): Promise<CryptoKey> {
+  if (!AUTH_CONFIG.COOKIE_SECRET) throw new Error('COOKIE_SECRET is not set');
+
+  keyPromise ??= crypto.subtle.importKey(
+    'raw',
+    encoder.encode(AUTH_CONFIG.COOKIE_SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+
+  return keyPromise;
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+
+  return difference === 0;
+}
+
+async function sign(nonce: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', await getKey(), encoder.encode(nonce));
+
+  return base64url.encode(new Uint8Array(signature));
+}
+
+/**
+ * A random value and its HMAC under COOKIE_SECRET, `<nonce>.<signature>`. The signature stops a
+ * sibling subdomain that can write cookies for this domain from planting a token it knows.
+ */
+export async function generateCsrfToken(): Promise<string> {
+  const nonce = base64url.encode(crypto.getRandomValues(new Uint8Array(32)));
+
+  return `${nonce}.${await sign(nonce)}`;
+}
+
+export async function isValidCsrfToken(token: string | undefined): Promise<boolean> {
+  const [nonce, signature, ...rest] = token?.split('.') ?? [];
+
+  if (!nonce || !signature || rest.length > 0) return false;
+
+  return timingSafeEqual(signature, await sign(nonce));
+}
+
+// Double submit: only scripts on this site can read the cookie and echo it in the header
+export async function verifyCsrfRequest(request: NextRequest): Promise<boolean> {
+  const cookieToken = request.cookies.get(CSRF_CONFIG.COOKIE_NAME)?.value;
+  const headerToken = request.headers.get(CSRF_CONFIG.HEADER_NAME);
+
+  if (!cookieToken || !headerToken || !timingSafeEqual(cookieToken, headerToken)) return false;
+
+  return isValidCsrfToken(cookieToken);
+}
+
+export const CSRF_COOKIE_OPTIONS = {
+  // Readable on purpose, lib/apiClient.ts copies it into the header
+  httpOnly: false,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax',
+  path: '/',
+} as const;
@@ -1,11 +1,144 @@
 import 'dotenv/config';
+import { readFileSync } from 'node:fs';
 import { drizzle } from 'drizzle-orm/node-postgres';
-import { Pool } from 'pg';
-import { DB_CONFIG } from '@/lib/constants';
+import { Pool, type PoolClient, type PoolConfig } from 'pg';
+import { DB_CONFIG } from '@/lib/config';
+import { trackDatabaseError } from '@/lib/sentry';
 
-const pool = new Pool({
-  connectionString: DB_CONFIG.URL,
-  ssl: false, // Disable SSL for Docker development
-});
+type PoolRole = 'primary' | 'replica';
 
-export const db = drizzle(pool);
+// Drizzle wraps driver errors, so the Postgres error code may sit on the cause
+export function isUniqueViolation(error: unknown): boolean {
+  const pgError = (error as { cause?: { code?: string } })?.cause ?? error;
+
+  return (pgError as { code?: string })?.code === '23505';
+}
+
+function loadCa(): string | undefined {
+  const ca = DB_CONFIG.SSL_CA;
+
+  if (!ca) return undefined;
+
+  // Env files often hold a PEM on one line with literal \n
+  return ca.includes('-----BEGIN') ? ca.replaceAll('\\n', '\n') : readFileSync(ca, 'utf8');
+}
+
+function getSslOptions(): PoolConfig['ssl'] {
+  switch (DB_CONFIG.SSL) {
+    case 'require':
+      // Same as libpq's sslmode=require, encrypted but any certificate is accepted
+      return { rejectUnauthorized: false };
+    case 'verify-full':
+      return { rejectUnauthorized: true, ca: loadCa() };
+    default:
+      return false;
+  }
+}
+
+function getConnectionOptions(url: string | undefined): PoolConfig {
+  if (url) return { connectionString: url };
+
+  return {
+    host: DB_CONFIG.HOST,
+    port: DB_CONFIG.PORT,
+    database: DB_CONFIG.NAME,
+    user: DB_CONFIG.USER,
+    password: DB_CONFIG.PASSWORD,
+  };
+}
+
+function getQueryText(config: unknown): string {
+  return typeof config === 'string' ? config : ((config as { text?: string })?.text ?? '');
+}
+
+function getQueryValues(config: unknown, values: unknown): unknown[] | undefined {
+  return Array.isArray(values) ? values : (config as { values?: unknown[] })?.values;
+}
+
+function onQueryDone(role: PoolRole, args: unknown[], durationMs: number, error?: unknown): void {
+  const [config, values] = args;
+  const text = getQueryText(config);
+
+  if (error) {
+    // Callers turn unique violations into 409s, they aren't failures worth reporting
+    if (isUniqueViolation(error)) return;
+
+    trackDatabaseError(
+      error instanceof Error ? error : new Error(String(error)),
+      text,
+      getQueryValues(config, values)
+    );
+    return;
+  }
+
+  if (DB_CONFIG.SLOW_QUERY_MS > 0 && durationMs >= DB_CONFIG.SLOW_QUERY_MS) {
+    // Parameters stay out of the log, like in trackDatabaseError
+    console.warn(`[db] Slow query on ${role} (${Math.round(durationMs)}ms): ${text}`);
+  }
+}
+
+// Times every query and reports failures. Both Pool.query and transactions run through a pooled
+// client, so wrapping each client as it connects covers all of Drizzle's queries.
+function instrumentClient(client: PoolClient, role: PoolRole): void {
+  const query = client.query.bind(client) as (...args: unknown[]) => unknown;
+
+  client.query = ((...args: unknown[]) => {
+    // Cursors and streams report through their own events
+    if (typeof (args[0] as { submit?: unknown })?.submit === 'function') return query(...args);
+
+    const startedAt = performance.now();
+    const callback = args.at(-1);
+
+    if (typeof callback === 'function') {
+      const queryArgs = args.slice(0, -1);
+
+      return query(...queryArgs, (error: unknown, result: unknown) => {
+        onQueryDone(role, queryArgs, performance.now() - startedAt, error);
+        callback(error, result);
+      });
+    }
+
+    const result = query(...args) as Promise<unknown>;
+
+    // The caller still gets the original promise and its rejection
+    result.then(
+      () => onQueryDone(role, args, performance.now() - startedAt),
+      (error: unknown) => onQueryDone(role, args, performance.now() - startedAt, error)
+    );
+
+    return result;
+  }) as PoolClient['query'];
+}
+
+function createPool(role: PoolRole, url: string | undefined): Pool {
+  const pool = new Pool({
+    ...getConnectionOptions(url),
+    ssl: getSslOptions(),
+    max: DB_CONFIG.POOL_MAX,
+    min: DB_CONFIG.POOL_MIN,
+    idleTimeoutMillis: DB_CONFIG.IDLE_TIMEOUT_MS,
+    connectionTimeoutMillis: DB_CONFIG.CONNECTION_TIMEOUT_MS,
+    statement_timeout: DB_CONFIG.STATEMENT_TIMEOUT_MS,
+  });
+
+  pool.on('connect', (client) => instrumentClient(client, role));
+  // Emitted when an idle client loses its connection, unhandled it would crash the process
+  pool.on('error', (error) => trackDatabaseError(error));
+
+  return pool;
+}
+
+export const pool = createPool('primary', DB_CONFIG.URL);
+
+// Without a replica, reads share the primary's pool
+export const readPool = DB_CONFIG.READ_URL ? createPool('replica', DB_CONFIG.READ_URL) : pool;
+
+const primary = drizzle(pool);
+const replica = readPool === pool ? primary : drizzle(readPool);
+
+/**
+ * `db` and `db.write` run on the primary. `db.read` runs on the replica when DATABASE_READ_URL is
+ * set, which lags behind the primary, so it only suits queries that tolerate slightly stale rows,
+ * never reading back a write that was just made.
+ */
+export const db = Object.assign(primary, { read: replica, write: primary });
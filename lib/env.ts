@@ -0,0 +1,206 @@
+import { z } from 'zod';
+import { type PublicEnv, publicEnvInput, publicEnvSchema } from '@/lib/publicEnv';
+
+// Holds every server secret. A client component importing it, even indirectly through
+// lib/config.ts, would ship them to the browser, so it refuses to load there.
+if (typeof window !== 'undefined') {
+  throw new Error('lib/env.ts is server-only, import lib/publicEnv.ts from client code instead');
+}
+
+const missing = (issue: { input: unknown }) =>
+  issue.input === undefined ? 'is required' : undefined;
+
+const requiredString = () => z.string({ error: missing }).min(1, 'is required');
+
+const originList = z
+  .string()
+  .transform((value) =>
+    value
+      .split(',')
+      .map((origin) => origin.trim())
+      .filter(Boolean)
+  )
+  .pipe(z.array(z.url()));
+
+const serverShape = {
+  NODE_ENV: z.enum(['development', 'test', 'production']).default('development'),
+  APP_URL: z.url().default('http://localhost:3000'),
+  PORT: z.coerce.number().int().positive().default(3000),
+  HOSTNAME: z.string().default('localhost'),
+  INTERNAL_APP_URL: z.url().optional(),
+  TRUSTED_PROXY_HOPS: z.coerce.number().int().nonnegative().default(0),
+  GOOGLE_TAG_MANAGER_ID: z.string().optional(),
+
+  // Either the URL or the separate fields, checked below
+  DATABASE_URL: z.url().optional(),
+  DATABASE_HOST: z.string().default('localhost'),
+  DATABASE_PORT: z.coerce.number().int().positive().default(5432),
+  DATABASE_NAME: z.string().default('next_boiler'),
+  DATABASE_USER: z.string().default('postgres'),
+  DATABASE_PASSWORD: z.string().default(''),
+  DATABASE_READ_URL: z.url().optional(),
+  DATABASE_SSL: z.enum(['disable', 'require', 'verify-full']).default('disable'),
+  DATABASE_SSL_CA: z.string().optional(),
+  DATABASE_POOL_MAX: z.coerce.number().int().positive().default(10),
+  DATABASE_POOL_MIN: z.coerce.number().int().nonnegative().default(0),
+  DATABASE_IDLE_TIMEOUT_MS: z.coerce.number().int().nonnegative().default(10_000),
+  DATABASE_CONNECTION_TIMEOUT_MS: z.coerce.number().int().nonnegative().default(5000),
+  DATABASE_STATEMENT_TIMEOUT_MS: z.coerce.number().int().positive().optional(),
+  DATABASE_SLOW_QUERY_MS: z.coerce.number().int().nonnegative().default(500),
+  DATABASE_MIGRATE_ON_START: z.stringbool().default(false),
+  DATABASE_SEED_ON_START: z.stringbool().default(false),
+
+  // Either the single secrets or the JSON keyrings from lib/keyring.ts, checked below
+  JWT_SECRET: z.string().optional(),
+  JWT_REFRESH_SECRET: z.string().optional(),
+  JWT_KEYS: z.string().optional(),
+  JWT_REFRESH_KEYS: z.string().optional(),
+  JWT_EXPIRES_IN: z.string().default('15m'),
+  JWT_REFRESH_EXPIRES_IN: z.string().default('7d'),
+  JWT_ISSUER: z.string().default('next-boiler'),
+  JWT_AUDIENCE: z.string().default('users'),
+
+  COOKIE_SECRET: requiredString(),
+  MFA_ENCRYPTION_KEY: requiredString(),
+  MFA_ISSUER: z.string().optional(),
+  WEBAUTHN_RP_ID: z.string().optional(),
+  WEBAUTHN_ORIGIN: z.url().optional(),
+  CORS_ORIGIN: originList.optional(),
+  CSP_REPORT_ONLY: z.stringbool().default(false),
+  HEALTH_CHECK_TOKEN: z.string().optional(),
+
+  REDIS_URL: z.url().default('redis://localhost:6379'),
+  RATE_LIMIT_STORE: z.enum(['memory', 'redis', 'postgres']).optional(),
+  IDEMPOTENCY_STORE: z.enum(['memory', 'redis', 'postgres']).optional(),
+  MAIL_TRANSPORT: z.enum(['smtp', 'console', 'memory']).optional(),
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().int().positive().default(587),
+  SMTP_USER: z.string().default(''),
+  SMTP_PASS: z.string().default(''),
+  SMTP_FROM: z.string().default('noreply@localhost'),
+
+  GOOGLE_CLIENT_ID: z.string().default(''),
+  GOOGLE_CLIENT_SECRET: z.string().default(''),
+  OIDC_MOCK_ISSUER: z.url().optional(),
+  OIDC_MOCK_CLIENT_ID: z.string().default('next-boiler'),
+  OIDC_MOCK_CLIENT_SECRET: z.string().default('next-boiler-secret'),
+
+  SENTRY_DSN: z.url().optional(),
+  ANALYTICS_ID: z.string().default(''),
+};
+
+const PRODUCTION_SECRETS = [
+  'JWT_SECRET',
+  'JWT_REFRESH_SECRET',
+  'COOKIE_SECRET',
+  'MFA_ENCRYPTION_KEY',
+  'HEALTH_CHECK_TOKEN',
+] as const;
+
+const MIN_PRODUCTION_SECRET_LENGTH = 32;
+
+// The values shipped in env.example and the docs
+const PLACEHOLDER_SECRET = /^(your-|dev-)|change-in-production|changeme/i;
+
+const serverEnvSchema = z.object(serverShape);
+
+export type ServerEnv = z.infer<typeof serverEnvSchema>;
+
+export type Env = ServerEnv & PublicEnv;
+
+interface EnvProblem {
+  name: string;
+  message: string;
+}
+
+type RawEnv = Record<string, string | undefined>;
+
+// Rules spanning several variables or one environment. They read the raw values, so they are
+// reported alongside schema errors instead of only once those are fixed.
+function checkRules(raw: RawEnv): EnvProblem[] {
+  const problems: EnvProblem[] = [];
+  const fail = (name: string, message: string) => problems.push({ name, message });
+
+  if (!raw.DATABASE_URL && !raw.DATABASE_HOST) {
+    fail('DATABASE_URL', 'is required unless DATABASE_HOST is set');
+  }
+  if (raw.DATABASE_SSL_CA && raw.DATABASE_SSL !== 'verify-full') {
+    fail('DATABASE_SSL_CA', 'only applies with DATABASE_SSL=verify-full');
+  }
+
+  if (!raw.JWT_SECRET && !raw.JWT_KEYS) fail('JWT_SECRET', 'is required unless JWT_KEYS is set');
+  if (!raw.JWT_REFRESH_SECRET && !raw.JWT_REFRESH_KEYS) {
+    fail('JWT_REFRESH_SECRET', 'is required unless JWT_REFRESH_KEYS is set');
+  }
+
+  if (raw.NODE_ENV !== 'production') return problems;
+
+  for (const name of PRODUCTION_SECRETS) {
+    const value = raw[name];
+
+    if (value === undefined) continue;
+
+    if (value.length < MIN_PRODUCTION_SECRET_LENGTH) {
+      fail(name, `must be at least ${MIN_PRODUCTION_SECRET_LENGTH} characters in production`);
+    } else if (PLACEHOLDER_SECRET.test(value)) {
+      fail(name, 'still holds the example value, generate one with `openssl rand -base64 48`');
+    }
+  }
+
+  // Otherwise a leaked refresh token secret would also mint access tokens
+  if (raw.JWT_SECRET && raw.JWT_SECRET === raw.JWT_REFRESH_SECRET) {
+    fail('JWT_REFRESH_SECRET', 'must differ from JWT_SECRET in production');
+  }
+
+  if (raw.OIDC_MOCK_ISSUER) {
+    fail('OIDC_MOCK_ISSUER', 'must not be set in production, the mock provider is for development');
+  }
+
+  if ((raw.MAIL_TRANSPORT ?? 'smtp') === 'smtp' && !raw.SMTP_HOST) {
+    fail(
+      'SMTP_HOST',
+      'is required in production unless MAIL_TRANSPORT is set to another transport'
+    );
+  }
+
+  return problems;
+}
+
+const toProblems = (error: z.ZodError | undefined): EnvProblem[] =>
+  (error?.issues ?? []).map((issue) => ({ name: issue.path.join('.'), message: issue.message }));
+
+function formatProblems(problems: EnvProblem[]): string {
+  return [
+    'Invalid environment variables:',
+    ...problems.map(({ name, message }) => `  - ${name}: ${message}`),
+    'See env.example for the full list.',
+  ].join('\n');
+}
+
+function parseEnv(): Env {
+  // `KEY=""` in an env file means unset, not an empty secret
+  const raw: RawEnv = Object.fromEntries(
+    Object.entries(process.env).filter(([, value]) => value !== '')
+  );
+
+  // `next build` loads every route without the runtime secrets. Values that are present are still
+  // checked, missing ones and the rules wait for the real boot.
+  const skipRules = process.env.SKIP_ENV_VALIDATION === 'true';
+
+  const server = skipRules
+    ? serverEnvSchema.partial().safeParse(raw)
+    : serverEnvSchema.safeParse(raw);
+  const client = publicEnvSchema.safeParse(publicEnvInput);
+
+  const problems = [
+    ...toProblems(server.error),
+    ...toProblems(client.error),
+    ...(skipRules ? [] : checkRules(raw)),
+  ];
+
+  if (problems.length > 0) throw new Error(formatProblems(problems));
+
+  return { ...(server.data as ServerEnv), ...client.data };
+}
+
+export const env = parseEnv();
@@ -0,0 +1,123 @@
+// Generated by scripts/generate-api.mjs from the route handlers in app/api, do not edit.
+// Run `npm run api:generate` after changing the routes.
+
+import type * as adminAuditEventsExport from '@/app/api/admin/audit-events/export/route';
+import type * as adminAuditEvents from '@/app/api/admin/audit-events/route';
+import type * as authChangePassword from '@/app/api/auth/change-password/route';
+import type * as authCsrf from '@/app/api/auth/csrf/route';
+import type * as authForgotPassword from '@/app/api/auth/forgot-password/route';
+import type * as authLogin from '@/app/api/auth/login/route';
+import type * as authLogout from '@/app/api/auth/logout/route';
+import type * as authMe from '@/app/api/auth/me/route';
+import type * as authMfaRecoveryCodes from '@/app/api/auth/mfa/recovery-codes/route';
+import type * as authMfaTotpDisable from '@/app/api/auth/mfa/totp/disable/route';
+import type * as authMfaTotpEnable from '@/app/api/auth/mfa/totp/enable/route';
+import type * as authMfaTotpSetup from '@/app/api/auth/mfa/totp/setup/route';
+import type * as authMfaVerify from '@/app/api/auth/mfa/verify/route';
+import type * as authOauthProvider from '@/app/api/auth/oauth/[provider]/route';
+import type * as authPasskeysId from '@/app/api/auth/passkeys/[id]/route';
+import type * as authPasskeysLoginOptions from '@/app/api/auth/passkeys/login/options/route';
+import type * as authPasskeysLoginVerify from '@/app/api/auth/passkeys/login/verify/route';
+import type * as authPasskeysRegisterOptions from '@/app/api/auth/passkeys/register/options/route';
+import type * as authPasskeysRegisterVerify from '@/app/api/auth/passkeys/register/verify/route';
+import type * as authPasskeys from '@/app/api/auth/passkeys/route';
+import type * as authRefresh from '@/app/api/auth/refresh/route';
+import type * as authRegister from '@/app/api/auth/register/route';
+import type * as authResetPassword from '@/app/api/auth/reset-password/route';
+import type * as authSessionsId from '@/app/api/auth/sessions/[id]/route';
+import type * as authSessions from '@/app/api/auth/sessions/route';
+import type * as authVerifyEmailRequest from '@/app/api/auth/verify-email/request/route';
+import type * as authVerifyEmail from '@/app/api/auth/verify-email/route';
+import type * as cspReport from '@/app/api/csp-report/route';
+import { createOperation } from '@/lib/apiClient';
+
+export const api = {
+  /** List audit events, newest first */
+  listAuditEvents: createOperation<typeof adminAuditEvents.GET>('GET', '/api/admin/audit-events'),
+  /** Download audit events as CSV or JSON Lines, oldest first */
+  exportAuditEvents: createOperation<typeof adminAuditEventsExport.GET>(
+    'GET',
+    '/api/admin/audit-events/export'
+  ),
+  /** Change the password and sign out other devices */
+  changePassword: createOperation<typeof authChangePassword.POST>(
+    'POST',
+    '/api/auth/change-password'
+  ),
+  /** Get the CSRF token to send with state-changing requests */
+  getCsrfToken: createOperation<typeof authCsrf.GET>('GET', '/api/auth/csrf'),
+  /** Email a password reset link */
+  forgotPassword: createOperation<typeof authForgotPassword.POST>(
+    'POST',
+    '/api/auth/forgot-password'
+  ),
+  /** Sign in with email and password */
+  login: createOperation<typeof authLogin.POST>('POST', '/api/auth/login'),
+  /** Sign out and revoke the current session */
+  logout: createOperation<typeof authLogout.POST>('POST', '/api/auth/logout'),
+  /** Get the signed-in user */
+  getCurrentUser: createOperation<typeof authMe.GET>('GET', '/api/auth/me'),
+  /** Replace every recovery code */
+  regenerateRecoveryCodes: createOperation<typeof authMfaRecoveryCodes.POST>(
+    'POST',
+    '/api/auth/mfa/recovery-codes'
+  ),
+  /** Turn off TOTP */
+  disableTotp: createOperation<typeof authMfaTotpDisable.POST>(
+    'POST',
+    '/api/auth/mfa/totp/disable'
+  ),
+  /** Confirm TOTP enrollment and get recovery codes */
+  enableTotp: createOperation<typeof authMfaTotpEnable.POST>('POST', '/api/auth/mfa/totp/enable'),
+  /** Start TOTP enrollment */
+  setupTotp: createOperation<typeof authMfaTotpSetup.POST>('POST', '/api/auth/mfa/totp/setup'),
+  /** Finish a sign-in with a TOTP or recovery code */
+  verifyMfa: createOperation<typeof authMfaVerify.POST>('POST', '/api/auth/mfa/verify'),
+  /** Redirect to the OAuth provider */
+  startOAuth: createOperation<typeof authOauthProvider.GET>('GET', '/api/auth/oauth/{provider}'),
+  /** List registered passkeys */
+  listPasskeys: createOperation<typeof authPasskeys.GET>('GET', '/api/auth/passkeys'),
+  /** Remove a passkey */
+  deletePasskey: createOperation<typeof authPasskeysId.DELETE>('DELETE', '/api/auth/passkeys/{id}'),
+  /** Start a passkey sign-in */
+  getPasskeyLoginOptions: createOperation<typeof authPasskeysLoginOptions.POST>(
+    'POST',
+    '/api/auth/passkeys/login/options'
+  ),
+  /** Sign in with a passkey */
+  verifyPasskeyLogin: createOperation<typeof authPasskeysLoginVerify.POST>(
+    'POST',
+    '/api/auth/passkeys/login/verify'
+  ),
+  /** Start registering a passkey */
+  getPasskeyRegistrationOptions: createOperation<typeof authPasskeysRegisterOptions.POST>(
+    'POST',
+    '/api/auth/passkeys/register/options'
+  ),
+  /** Store a new passkey */
+  verifyPasskeyRegistration: createOperation<typeof authPasskeysRegisterVerify.POST>(
+    'POST',
+    '/api/auth/passkeys/register/verify'
+  ),
+  /** Rotate the refresh token and reissue the access token */
+  refresh: createOperation<typeof authRefresh.POST>('POST', '/api/auth/refresh'),
+  /** Create an account */
+  register: createOperation<typeof authRegister.POST>('POST', '/api/auth/register'),
+  /** Set a new password with a reset token */
+  resetPassword: createOperation<typeof authResetPassword.POST>('POST', '/api/auth/reset-password'),
+  /** Sign out every other session */
+  revokeOtherSessions: createOperation<typeof authSessions.DELETE>('DELETE', '/api/auth/sessions'),
+  /** List active sessions */
+  listSessions: createOperation<typeof authSessions.GET>('GET', '/api/auth/sessions'),
+  /** Sign out one session */
+  revokeSession: createOperation<typeof authSessionsId.DELETE>('DELETE', '/api/auth/sessions/{id}'),
+  /** Confirm an email address */
+  verifyEmail: createOperation<typeof authVerifyEmail.POST>('POST', '/api/auth/verify-email'),
+  /** Send another verification email */
+  requestEmailVerification: createOperation<typeof authVerifyEmailRequest.POST>(
+    'POST',
+    '/api/auth/verify-email/request'
+  ),
+  /** Receive Content-Security-Policy violation reports */
+  reportCspViolation: createOperation<typeof cspReport.POST>('POST', '/api/csp-report'),
+};
@@ -0,0 +1,64 @@
+// Generated by scripts/generate-api.mjs from the route handlers in app/api, do not edit.
+// Run `npm run api:generate` after changing the routes.
+
+import * as adminAuditEventsExport from '@/app/api/admin/audit-events/export/route';
+import * as adminAuditEvents from '@/app/api/admin/audit-events/route';
+import * as authChangePassword from '@/app/api/auth/change-password/route';
+import * as authCsrf from '@/app/api/auth/csrf/route';
+import * as authForgotPassword from '@/app/api/auth/forgot-password/route';
+import * as authLogin from '@/app/api/auth/login/route';
+import * as authLogout from '@/app/api/auth/logout/route';
+import * as authMe from '@/app/api/auth/me/route';
+import * as authMfaRecoveryCodes from '@/app/api/auth/mfa/recovery-codes/route';
+import * as authMfaTotpDisable from '@/app/api/auth/mfa/totp/disable/route';
+import * as authMfaTotpEnable from '@/app/api/auth/mfa/totp/enable/route';
+import * as authMfaTotpSetup from '@/app/api/auth/mfa/totp/setup/route';
+import * as authMfaVerify from '@/app/api/auth/mfa/verify/route';
+import * as authOauthProvider from '@/app/api/auth/oauth/[provider]/route';
+import * as authPasskeysId from '@/app/api/auth/passkeys/[id]/route';
+import * as authPasskeysLoginOptions from '@/app/api/auth/passkeys/login/options/route';
+import * as authPasskeysLoginVerify from '@/app/api/auth/passkeys/login/verify/route';
+import * as authPasskeysRegisterOptions from '@/app/api/auth/passkeys/register/options/route';
+import * as authPasskeysRegisterVerify from '@/app/api/auth/passkeys/register/verify/route';
+import * as authPasskeys from '@/app/api/auth/passkeys/route';
+import * as authRefresh from '@/app/api/auth/refresh/route';
+import * as authRegister from '@/app/api/auth/register/route';
+import * as authResetPassword from '@/app/api/auth/reset-password/route';
+import * as authSessionsId from '@/app/api/auth/sessions/[id]/route';
+import * as authSessions from '@/app/api/auth/sessions/route';
+import * as authVerifyEmailRequest from '@/app/api/auth/verify-email/request/route';
+import * as authVerifyEmail from '@/app/api/auth/verify-email/route';
+import * as cspReport from '@/app/api/csp-report/route';
+import type { ApiRoute } from '@/lib/openapi';
+
+export const apiRoutes: ApiRoute[] = [
+  { method: 'GET', handler: adminAuditEvents.GET },
+  { method: 'GET', handler: adminAuditEventsExport.GET },
+  { method: 'POST', handler: authChangePassword.POST },
+  { method: 'GET', handler: authCsrf.GET },
+  { method: 'POST', handler: authForgotPassword.POST },
+  { method: 'POST', handler: authLogin.POST },
+  { method: 'POST', handler: authLogout.POST },
+  { method: 'GET', handler: authMe.GET },
+  { method: 'POST', handler: authMfaRecoveryCodes.POST },
+  { method: 'POST', handler: authMfaTotpDisable.POST },
+  { method: 'POST', handler: authMfaTotpEnable.POST },
+  { method: 'POST', handler: authMfaTotpSetup.POST },
+  { method: 'POST', handler: authMfaVerify.POST },
+  { method: 'GET', handler: authOauthProvider.GET },
+  { method: 'GET', handler: authPasskeys.GET },
+  { method: 'DELETE', handler: authPasskeysId.DELETE },
+  { method: 'POST', handler: authPasskeysLoginOptions.POST },
+  { method: 'POST', handler: authPasskeysLoginVerify.POST },
+  { method: 'POST', handler: authPasskeysRegisterOptions.POST },
+  { method: 'POST', handler: authPasskeysRegisterVerify.POST },
+  { method: 'POST', handler: authRefresh.POST },
+  { method: 'POST', handler: authRegister.POST },
+  { method: 'POST', handler: authResetPassword.POST },
+  { method: 'DELETE', handler: authSessions.DELETE },
+  { method: 'GET', handler: authSessions.GET },
+  { method: 'DELETE', handler: authSessionsId.DELETE },
+  { method: 'POST', handler: authVerifyEmail.POST },
+  { method: 'POST', handler: authVerifyEmailRequest.POST },
+  { method: 'POST', handler: cspReport.POST },
+];
@@ -0,0 +1,243 @@
+import { NextResponse } from 'next/server';
+import { type ZodType, z } from 'zod';
+import { HttpError, problemResponse, zodIssuesToErrors } from '@/lib/api';
+import { getSession, type JWTPayload } from '@/lib/auth';
+import {
+  claimIdempotencyKey,
+  type IdempotencyClaim,
+  settleIdempotencyKey,
+} from '@/lib/idempotency';
+import { AuthorizationError, hasPermission, type Permission } from '@/lib/permissions';
+import {
+  type RateLimitIdentity,
+  type RateLimitName,
+  type RateLimitResult,
+  rateLimit,
+  withRateLimitHeaders,
+} from '@/lib/rateLimit';
+import { trackApiError, withApiScope } from '@/lib/sentry';
+
+type Schema = ZodType | undefined;
+
+type Output<S extends Schema> = S extends ZodType ? z.output<S> : undefined;
+
+// `true` needs any session, a permission needs a session holding it, anything else lets
+// anonymous requests through with a null session
+type AuthRequirement = boolean | Permission | undefined;
+
+type SessionFor<A extends AuthRequirement> = A extends true | Permission
+  ? JWTPayload
+  : JWTPayload | null;
+
+export interface HandlerInput<
+  B extends Schema,
+  Q extends Schema,
+  P extends Schema,
+  A extends AuthRequirement,
+> {
+  request: Request;
+  body: Output<B>;
+  query: Output<Q>;
+  params: Output<P>;
+  session: SessionFor<A>;
+}
+
+export interface HandlerOptions<
+  B extends Schema,
+  Q extends Schema,
+  P extends Schema,
+  R extends Schema,
+  A extends AuthRequirement,
+> {
+  // Path template with {placeholders}, used for Sentry tags instead of the raw URL
+  route: string;
+  // Names the operation in the OpenAPI document and the method in the generated client
+  operationId: string;
+  summary?: string;
+  body?: B;
+  query?: Q;
+  params?: P;
+  // Checked against every successful JSON response outside production
+  response?: R;
+  // Success status, for handlers returning a redirect it is only what the OpenAPI document lists
+  status?: number;
+  auth?: A;
+  rateLimit?:
+    | RateLimitName
+    | {
+        name: RateLimitName;
+        // Defaults to the signed-in user, if there is one
+        identity?: (
+          input: HandlerInput<B, Q, P, A>
+        ) => RateLimitIdentity | Promise<RateLimitIdentity>;
+      };
+}
+
+// Handlers return the response body, or a Response for redirects and other special cases
+export type HandlerResult<R extends Schema> = (R extends ZodType ? z.input<R> : unknown) | Response;
+
+interface RouteContext {
+  params: Promise<Record<string, string | string[]>>;
+}
+
+// What lib/openapi.ts reads from a handler, minus the callbacks that vary with its input types
+export type RouteDefinition = Omit<
+  HandlerOptions<Schema, Schema, Schema, Schema, AuthRequirement>,
+  'rateLimit'
+> & { rateLimit?: unknown };
+
+// The options stay attached so lib/openapi.ts and the generated client can read the schemas
+export type RouteHandler<
+  B extends Schema = Schema,
+  Q extends Schema = Schema,
+  P extends Schema = Schema,
+  R extends Schema = Schema,
+  A extends AuthRequirement = AuthRequirement,
+> = ((request: Request, context?: RouteContext) => Promise<Response>) & {
+  definition: HandlerOptions<B, Q, P, R, A>;
+};
+
+// Requests that change nothing are safe to repeat without a key
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+function getQuery(request: Request): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+
+  for (const [key, value] of new URL(request.url).searchParams) {
+    const existing = query[key];
+    query[key] = existing === undefined ? value : [existing, value].flat();
+  }
+
+  return query;
+}
+
+async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+}
+
+function parseInput<S extends Schema>(schema: S, input: unknown, status = 400): Output<S> {
+  if (!schema) return undefined as Output<S>;
+
+  const result = schema.safeParse(input);
+
+  if (!result.success) {
+    throw new HttpError(status, 'Validation failed', { errors: zodIssuesToErrors(result.error) });
+  }
+
+  return result.data as Output<S>;
+}
+
+/**
+ * Wraps a route handler with the steps every endpoint repeats: session and permission checks,
+ * zod parsing of params, query and body, rate limiting, Idempotency-Key replays, and RFC 7807
+ * errors. Anything thrown that isn't an HttpError is reported to Sentry and answered with a
+ * generic 500.
+ */
+export function createHandler<
+  B extends Schema = undefined,
+  Q extends Schema = undefined,
+  P extends Schema = undefined,
+  R extends Schema = undefined,
+  A extends AuthRequirement = undefined,
+>(
+  options: HandlerOptions<B, Q, P, R, A>,
+  handler: (input: HandlerInput<B, Q, P, A>) => Promise<HandlerResult<R>>
+): RouteHandler<B, Q, P, R, A> {
+  const route = async (request: Request, context?: RouteContext): Promise<Response> =>
+    withApiScope(options.route, request.method, async () => {
+      const instance = new URL(request.url).pathname;
+      let session: JWTPayload | null = null;
+      let limit: RateLimitResult | undefined;
+      let claim: Extract<IdempotencyClaim, { status: 'claimed' }> | undefined;
+
+      const finish = async (response: Response) => {
+        if (claim) await settleIdempotencyKey(claim, response);
+
+        return limit ? withRateLimitHeaders(response, limit) : response;
+      };
+
+      try {
+        session = await getSession();
+
+        if (options.auth) {
+          if (!session) throw new AuthorizationError(401);
+
+          if (typeof options.auth === 'string' && !hasPermission(session, options.auth)) {
+            throw new AuthorizationError(403);
+          }
+        }
+
+        // Claimed before the body is read, the fingerprint needs it unparsed
+        if (!SAFE_METHODS.has(request.method)) {
+          const claimed = await claimIdempotencyKey(request, options.route, session?.userId);
+
+          if (claimed?.status === 'replay') return claimed.response;
+
+          claim = claimed ?? undefined;
+        }
+
+        // A malformed path segment means the resource can't exist
+        const params = parseInput(options.params, await context?.params, 404);
+        const query = parseInput(options.query, getQuery(request));
+        const body = parseInput(options.body, options.body ? await readJson(request) : undefined);
+
+        const input = { request, body, query, params, session } as HandlerInput<B, Q, P, A>;
+
+        if (options.rateLimit) {
+          const { name, identity } =
+            typeof options.rateLimit === 'string' ? { name: options.rateLimit } : options.rateLimit;
+
+          const check = await rateLimit(
+            request,
+            name,
+            identity ? await identity(input) : { userId: session?.userId }
+          );
+
+          limit = check.result;
+
+          if (!check.success)
+            throw new HttpError(429, 'Too many requests. Please try again later.');
+        }
+
+        const result = await handler(input);
+
+        if (result instanceof Response) return finish(result);
+
+        if (options.response && process.env.NODE_ENV !== 'production') {
+          const checked = options.response.safeParse(result);
+
+          if (!checked.success) {
+            throw new Error(
+              `Response of ${request.method} ${options.route} does not match its schema:\n${z.prettifyError(checked.error)}`
+            );
+          }
+        }
+
+        return finish(NextResponse.json(result, { status: options.status ?? 200 }));
+      } catch (error) {
+        if (error instanceof HttpError) {
+          return finish(
+            problemResponse(error.status, error.message, {
+              errors: error.errors,
+              headers: error.headers,
+              instance,
+            })
+          );
+        }
+
+        if (error instanceof AuthorizationError) {
+          return finish(problemResponse(error.status, error.message, { instance }));
+        }
+
+        trackApiError(error as Error, options.route, request.method, session?.userId);
+
+        return finish(problemResponse(500, 'Internal server error', { instance }));
+      }
+    });
+
+  return Object.assign(route, { definition: options });
+}
@@ -0,0 +1,210 @@
+import { timingSafeEqual } from 'node:crypto';
+import { sql } from 'drizzle-orm';
+import { NextResponse } from 'next/server';
+import { EXTERNAL_SERVICES, HEALTH_CONFIG } from '@/lib/config';
+import { db, pool, readPool } from '@/lib/db';
+import { mailer } from '@/lib/mailer';
+import { getMigrationStatus } from '@/lib/migrations';
+import { getRedis } from '@/lib/redis';
+
+export type HealthStatus = 'pass' | 'warn' | 'fail';
+
+// Extra fields for the token-gated output
+export type ProbeDetails = Record<string, unknown>;
+
+// Thrown by a check that fails with details to show, e.g. the pending migrations
+export class ProbeError extends Error {
+  readonly details: ProbeDetails;
+
+  constructor(message: string, details: ProbeDetails) {
+    super(message);
+    this.name = 'ProbeError';
+    this.details = details;
+  }
+}
+
+export interface HealthProbe {
+  name: string;
+  // A failing critical probe takes the instance out of rotation, other failures only warn
+  critical: boolean;
+  timeoutMs?: number;
+  // Throws when the dependency is unhealthy, resolves to what it found out on the way
+  check: () => Promise<ProbeDetails> | Promise<void>;
+  // Details that don't come from the check, read once it has settled
+  details?: () => ProbeDetails;
+}
+
+export interface ProbeResult {
+  status: 'pass' | 'fail';
+  critical: boolean;
+  latencyMs: number;
+  details?: ProbeDetails;
+  error?: string;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  checks: Record<string, ProbeResult>;
+}
+
+const probes = new Map<string, HealthProbe>();
+
+// Registering a probe under an existing name replaces it
+export function registerProbe(probe: HealthProbe) {
+  probes.set(probe.name, probe);
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Drizzle wraps driver errors in "Failed query: ...", the reason is on the cause
+function describeError(error: unknown): string {
+  if (!(error instanceof Error)) return 'Unknown error';
+
+  return error.cause instanceof Error ? error.cause.message : error.message;
+}
+
+async function runProbe(probe: HealthProbe): Promise<ProbeResult> {
+  const startedAt = performance.now();
+
+  const withDetails = (found: ProbeDetails | undefined) =>
+    found || probe.details ? { ...probe.details?.(), ...found } : undefined;
+
+  try {
+    const found = await withTimeout<ProbeDetails | undefined>(
+      probe.check().then((result) => result ?? undefined),
+      probe.timeoutMs ?? HEALTH_CONFIG.PROBE_TIMEOUT_MS
+    );
+
+    return {
+      status: 'pass',
+      critical: probe.critical,
+      latencyMs: Math.round(performance.now() - startedAt),
+      details: withDetails(found),
+    };
+  } catch (error) {
+    return {
+      status: 'fail',
+      critical: probe.critical,
+      latencyMs: Math.round(performance.now() - startedAt),
+      details: withDetails(error instanceof ProbeError ? error.details : undefined),
+      error: describeError(error),
+    };
+  }
+}
+
+// Probes run in parallel, so the slowest one (capped by its timeout) sets the response time
+export async function runProbes(): Promise<HealthReport> {
+  const entries = await Promise.all(
+    [...probes.values()].map(async (probe) => [probe.name, await runProbe(probe)] as const)
+  );
+
+  const checks = Object.fromEntries(entries);
+  const failed = entries.filter(([, result]) => result.status === 'fail');
+
+  let status: HealthStatus = 'pass';
+  if (failed.length > 0) status = 'warn';
+  if (failed.some(([, result]) => result.critical)) status = 'fail';
+
+  return { status, checks };
+}
+
+// Details name internal hosts and error messages, so they are only shown to monitoring
+export function canSeeHealthDetails(request: Request): boolean {
+  const token = request.headers.get('authorization')?.replace(/^Bearer /, '');
+
+  if (!HEALTH_CONFIG.TOKEN || !token) return false;
+
+  const expected = Buffer.from(HEALTH_CONFIG.TOKEN);
+  const actual = Buffer.from(token);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function healthResponse(
+  body: { status: HealthStatus } & Record<string, unknown>,
+  status = 200
+): NextResponse {
+  return NextResponse.json(body, {
+    status,
+    headers: {
+      'Content-Type': 'application/health+json',
+      // A cached "pass" would hide an outage from the load balancer
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+const getPoolStats = (target: typeof pool) => ({
+  totalConnections: target.totalCount,
+  idleConnections: target.idleCount,
+  waitingRequests: target.waitingCount,
+});
+
+registerProbe({
+  name: 'postgres',
+  critical: true,
+  check: async () => {
+    await db.write.execute(sql`SELECT 1`);
+  },
+  details: () => getPoolStats(pool),
+});
+
+if (readPool !== pool) {
+  registerProbe({
+    name: 'postgres-replica',
+    // Only `db.read` queries depend on it, sign-in and writes keep working without it
+    critical: false,
+    check: async () => {
+      await db.read.execute(sql`SELECT 1`);
+    },
+    details: () => getPoolStats(readPool),
+  });
+}
+
+registerProbe({
+  name: 'migrations',
+  // The code expects the latest schema, running against an older one fails in odd places. Also
+  // fails while lib/migrations.ts is still applying them at startup.
+  critical: true,
+  check: async () => {
+    const { applied, pending } = await getMigrationStatus();
+    const details = { applied: applied.length, latest: applied.at(-1), pending };
+
+    if (pending.length > 0) {
+      throw new ProbeError(`Pending migrations: ${pending.join(', ')}`, details);
+    }
+
+    return details;
+  },
+});
+
+registerProbe({
+  name: 'redis',
+  // Only load-bearing when it holds the rate limit counters
+  critical: EXTERNAL_SERVICES.RATE_LIMIT_STORE === 'redis',
+  check: async () => {
+    const redis = getRedis();
+
+    if (redis.status === 'wait') await redis.connect();
+
+    await redis.ping();
+  },
+});
+
+if (mailer.verify) {
+  registerProbe({
+    name: 'smtp',
+    // Sign-in keeps working while mail is down, only verification and reset emails wait
+    critical: false,
+    timeoutMs: 5000,
+    check: mailer.verify,
+  });
+}
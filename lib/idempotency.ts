@@ -0,0 +1,245 @@
+import { createHash } from 'node:crypto';
+import { eq, lt, sql } from 'drizzle-orm';
+import { HttpError } from '@/lib/api';
+import { EXTERNAL_SERVICES } from '@/lib/config';
+import { db } from '@/lib/db';
+import { getRedis } from '@/lib/redis';
+import { idempotencyKeysTable } from '@/lib/schema';
+import { captureException } from '@/lib/sentry';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+export interface StoredResponse {
+  status: number;
+  headers: [string, string][];
+  body: string;
+}
+
+export interface IdempotencyEntry {
+  // Hash of the request body, a key reused for a different request is rejected
+  fingerprint: string;
+  // Missing while the first request is still running
+  response?: StoredResponse;
+}
+
+export interface IdempotencyStore {
+  // Stores the entry unless the key is taken, and returns what is stored under a taken key
+  claim: (key: string, entry: IdempotencyEntry, ttlMs: number) => Promise<IdempotencyEntry | null>;
+  complete: (key: string, entry: IdempotencyEntry, ttlMs: number) => Promise<void>;
+  // Frees the key so a retry runs the request again
+  release: (key: string) => Promise<void>;
+}
+
+// Long enough for every retry, short enough that a crashed request doesn't hold its key for a day
+const PENDING_TTL_MS = 60 * 1000;
+const COMPLETED_TTL_MS = 24 * 60 * 60 * 1000;
+
+const MAX_KEY_LENGTH = 255;
+
+// Cookies set through next/headers are added after the handler returns, so they never reach the
+// stored response. Any set on it directly are left out too, they belong to the first request.
+const UNREPLAYED_HEADERS = new Set(['set-cookie']);
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+export function createMemoryIdempotencyStore(): IdempotencyStore {
+  const entries = new Map<string, { entry: IdempotencyEntry; expiresAt: number }>();
+
+  return {
+    claim: async (key, entry, ttlMs) => {
+      const existing = entries.get(key);
+
+      if (existing && existing.expiresAt > Date.now()) return existing.entry;
+
+      entries.set(key, { entry, expiresAt: Date.now() + ttlMs });
+
+      return null;
+    },
+    complete: async (key, entry, ttlMs) => {
+      entries.set(key, { entry, expiresAt: Date.now() + ttlMs });
+    },
+    release: async (key) => {
+      entries.delete(key);
+    },
+  };
+}
+
+export function createRedisIdempotencyStore(redis = getRedis()): IdempotencyStore {
+  const redisKey = (key: string) => `idempotency:${key}`;
+
+  const connect = async () => {
+    if (redis.status === 'wait') await redis.connect();
+  };
+
+  return {
+    claim: async (key, entry, ttlMs) => {
+      await connect();
+
+      const claimed = await redis.set(redisKey(key), JSON.stringify(entry), 'PX', ttlMs, 'NX');
+
+      if (claimed) return null;
+
+      const raw = await redis.get(redisKey(key));
+
+      // Expired between the two commands, a retry from the client will claim it
+      return raw ? (JSON.parse(raw) as IdempotencyEntry) : { fingerprint: entry.fingerprint };
+    },
+    complete: async (key, entry, ttlMs) => {
+      await connect();
+      await redis.set(redisKey(key), JSON.stringify(entry), 'PX', ttlMs);
+    },
+    release: async (key) => {
+      await connect();
+      await redis.del(redisKey(key));
+    },
+  };
+}
+
+export function createPostgresIdempotencyStore(): IdempotencyStore {
+  return {
+    claim: async (key, entry, ttlMs) => {
+      if (Math.random() < 0.01) {
+        await db.delete(idempotencyKeysTable).where(sql`${idempotencyKeysTable.expiresAt} < now()`);
+      }
+
+      const expiresAt = new Date(Date.now() + ttlMs);
+
+      // Takes over an expired row in place, like a missing one
+      const [claimed] = await db
+        .insert(idempotencyKeysTable)
+        .values({ key, entry, expiresAt })
+        .onConflictDoUpdate({
+          target: idempotencyKeysTable.key,
+          set: { entry, expiresAt },
+          setWhere: lt(idempotencyKeysTable.expiresAt, new Date()),
+        })
+        .returning({ key: idempotencyKeysTable.key });
+
+      if (claimed) return null;
+
+      const [existing] = await db
+        .select({ entry: idempotencyKeysTable.entry })
+        .from(idempotencyKeysTable)
+        .where(eq(idempotencyKeysTable.key, key));
+
+      return (
+        (existing?.entry as IdempotencyEntry | undefined) ?? { fingerprint: entry.fingerprint }
+      );
+    },
+    complete: async (key, entry, ttlMs) => {
+      await db
+        .update(idempotencyKeysTable)
+        .set({ entry, expiresAt: new Date(Date.now() + ttlMs) })
+        .where(eq(idempotencyKeysTable.key, key));
+    },
+    release: async (key) => {
+      await db.delete(idempotencyKeysTable).where(eq(idempotencyKeysTable.key, key));
+    },
+  };
+}
+
+function createStore(kind: typeof EXTERNAL_SERVICES.IDEMPOTENCY_STORE): IdempotencyStore {
+  switch (kind) {
+    case 'redis':
+      return createRedisIdempotencyStore();
+    case 'postgres':
+      return createPostgresIdempotencyStore();
+    default:
+      return createMemoryIdempotencyStore();
+  }
+}
+
+let defaultStore: IdempotencyStore | undefined;
+
+function getStore(): IdempotencyStore {
+  defaultStore ??= createStore(EXTERNAL_SERVICES.IDEMPOTENCY_STORE);
+  return defaultStore;
+}
+
+export type IdempotencyClaim =
+  | { status: 'claimed'; key: string; fingerprint: string }
+  | { status: 'replay'; response: Response };
+
+function toResponse({ status, headers, body }: StoredResponse): Response {
+  const response = new Response(status === 204 ? null : body, { status, headers });
+
+  response.headers.set('Idempotent-Replayed', 'true');
+
+  return response;
+}
+
+/**
+ * Claims the request's Idempotency-Key, null when it sent none or the store is down. A key that already completed
+ * replays the stored response. Keys are scoped to the route and the user, so one client can't
+ * read another's responses by guessing their keys.
+ */
+export async function claimIdempotencyKey(
+  request: Request,
+  route: string,
+  userId: string | undefined,
+  store: IdempotencyStore = getStore()
+): Promise<IdempotencyClaim | null> {
+  const idempotencyKey = request.headers.get(IDEMPOTENCY_HEADER);
+
+  if (idempotencyKey === null) return null;
+
+  if (!idempotencyKey || idempotencyKey.length > MAX_KEY_LENGTH) {
+    throw new HttpError(400, `${IDEMPOTENCY_HEADER} must be 1 to ${MAX_KEY_LENGTH} characters`);
+  }
+
+  const key = sha256(`${request.method} ${route} ${userId ?? 'anonymous'} ${idempotencyKey}`);
+  const fingerprint = sha256(await request.clone().text());
+  let existing: IdempotencyEntry | null;
+
+  try {
+    existing = await store.claim(key, { fingerprint }, PENDING_TTL_MS);
+  } catch (error) {
+    // Without its store the request runs unprotected, as it would without a key
+    captureException(error as Error, { operation: 'idempotency' });
+    return null;
+  }
+
+  if (!existing) return { status: 'claimed', key, fingerprint };
+
+  if (existing.fingerprint !== fingerprint) {
+    throw new HttpError(422, `${IDEMPOTENCY_HEADER} was already used for a different request`);
+  }
+
+  if (!existing.response) {
+    throw new HttpError(409, `A request with this ${IDEMPOTENCY_HEADER} is still in progress`);
+  }
+
+  return { status: 'replay', response: toResponse(existing.response) };
+}
+
+/**
+ * Stores the response for replays, or frees the key after a 429 or 5xx so a retry runs the
+ * request again. Never throws: the response has been produced and is still sent.
+ */
+export async function settleIdempotencyKey(
+  { key, fingerprint }: Extract<IdempotencyClaim, { status: 'claimed' }>,
+  response: Response,
+  store: IdempotencyStore = getStore()
+): Promise<void> {
+  try {
+    if (response.status === 429 || response.status >= 500) {
+      await store.release(key);
+      return;
+    }
+
+    const headers = [...response.headers].filter(
+      ([name]) => !UNREPLAYED_HEADERS.has(name.toLowerCase())
+    );
+
+    await store.complete(
+      key,
+      {
+        fingerprint,
+        response: { status: response.status, headers, body: await response.clone().text() },
+      },
+      COMPLETED_TTL_MS
+    );
+  } catch (error) {
+    captureException(error as Error, { operation: 'idempotency' });
+  }
+}
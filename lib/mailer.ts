@@ -0,0 +1,73 @@
+import nodemailer from 'nodemailer';
+import { EXTERNAL_SERVICES } from '@/lib/config';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  send: (message: MailMessage) => Promise<void>;
+  // Checks the connection and credentials without sending, for transports that have them
+  verify?: () => Promise<void>;
+}
+
+export interface MemoryMailer extends Mailer {
+  outbox: MailMessage[];
+  clear: () => void;
+}
+
+export function createSmtpMailer(config = EXTERNAL_SERVICES.SMTP): Mailer {
+  const transport = nodemailer.createTransport({
+    host: config.HOST,
+    port: config.PORT,
+    secure: config.PORT === 465,
+    auth: config.USER ? { user: config.USER, pass: config.PASS } : undefined,
+  });
+
+  return {
+    send: async (message) => {
+      await transport.sendMail({ from: config.FROM, ...message });
+    },
+    verify: async () => {
+      await transport.verify();
+    },
+  };
+}
+
+export function createConsoleMailer(): Mailer {
+  return {
+    send: async (message) => {
+      console.info(`[mailer] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+    },
+  };
+}
+
+export function createMemoryMailer(): MemoryMailer {
+  const outbox: MailMessage[] = [];
+
+  return {
+    outbox,
+    send: async (message) => {
+      outbox.push(message);
+    },
+    clear: () => {
+      outbox.length = 0;
+    },
+  };
+}
+
+function createMailer(transport: typeof EXTERNAL_SERVICES.MAIL_TRANSPORT): Mailer {
+  switch (transport) {
+    case 'smtp':
+      return createSmtpMailer();
+    case 'memory':
+      return createMemoryMailer();
+    default:
+      return createConsoleMailer();
+  }
+}
+
+export const mailer = createMailer(EXTERNAL_SERVICES.MAIL_TRANSPORT);
@@ -0,0 +1,254 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  timingSafeEqual,
+} from 'node:crypto';
+import { and, eq, isNull } from 'drizzle-orm';
+import QRCode from 'qrcode';
+import { hashToken } from '@/lib/auth';
+import { AUTH_CONFIG } from '@/lib/config';
+import { db } from '@/lib/db';
+import { recoveryCodesTable } from '@/lib/schema';
+import { createPostgresUserRepository } from '@/lib/userRepository';
+import type { UserRecord } from '@/lib/users';
+
+type Executor = Pick<typeof db, 'insert' | 'delete'>;
+
+const repository = createPostgresUserRepository();
+
+export interface TotpEnrollment {
+  secret: string;
+  otpauthUri: string;
+  // PNG data URL of the otpauth URI, ready for an <img> tag
+  qrCode: string;
+}
+
+// RFC 6238 defaults, which is what every authenticator app expects without extra parameters
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+// Accept the neighbouring steps too, phones drift and people type slowly
+const TOTP_WINDOW = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 character');
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function getTotpStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+export function generateTotp(secret: string, step = getTotpStep()): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+// Returns the matched time step so the caller can reject it next time, or null
+export function verifyTotp(
+  secret: string,
+  code: string,
+  lastUsedStep: number | null = null,
+  now = Date.now()
+): number | null {
+  if (!/^\d+$/.test(code) || code.length !== TOTP_DIGITS) return null;
+
+  const current = getTotpStep(now);
+
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const step = current + offset;
+
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+
+    if (timingSafeEqual(Buffer.from(generateTotp(secret, step)), Buffer.from(code))) return step;
+  }
+
+  return null;
+}
+
+export function getOtpauthUri(secret: string, accountName: string): string {
+  const issuer = AUTH_CONFIG.MFA_ISSUER;
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`;
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+function getEncryptionKey(): Buffer {
+  if (!AUTH_CONFIG.MFA_ENCRYPTION_KEY) {
+    throw new Error('MFA_ENCRYPTION_KEY must be set to store TOTP secrets');
+  }
+
+  return createHash('sha256').update(AUTH_CONFIG.MFA_ENCRYPTION_KEY).digest();
+}
+
+// Stored as iv.tag.ciphertext so a database leak alone doesn't hand out working authenticators
+export function encryptSecret(secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+}
+
+export function decryptSecret(encrypted: string): string {
+  const [iv, tag, ciphertext] = encrypted.split('.').map((part) => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase();
+}
+
+function generateRecoveryCode(): string {
+  const chars = base32Encode(randomBytes(7)).slice(0, 10).toLowerCase();
+
+  return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+}
+
+// Replaces any previous set, the plain codes are only ever shown once
+export async function regenerateRecoveryCodes(
+  userId: number,
+  executor: Executor = db
+): Promise<string[]> {
+  const codes = Array.from({ length: AUTH_CONFIG.MFA_RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+  await executor.delete(recoveryCodesTable).where(eq(recoveryCodesTable.userId, userId));
+  await executor
+    .insert(recoveryCodesTable)
+    .values(codes.map((code) => ({ userId, codeHash: hashToken(normalizeRecoveryCode(code)) })));
+
+  return codes;
+}
+
+export function isTotpEnabled(user: UserRecord): boolean {
+  return !!user.totpEnabledAt && !!user.totpSecret;
+}
+
+// Starting over is allowed until enrollment is confirmed, so a lost QR code isn't a dead end
+export async function beginTotpEnrollment(user: UserRecord): Promise<TotpEnrollment> {
+  const secret = generateTotpSecret();
+  const otpauthUri = getOtpauthUri(secret, user.email);
+
+  await repository.update(user.id, {
+    totpSecret: encryptSecret(secret),
+    totpEnabledAt: null,
+    totpLastUsedStep: null,
+  });
+
+  return { secret, otpauthUri, qrCode: await QRCode.toDataURL(otpauthUri) };
+}
+
+// Resolves to the recovery codes, or null when the code doesn't match the pending secret
+export async function enableTotp(user: UserRecord, code: string): Promise<string[] | null> {
+  if (!user.totpSecret || user.totpEnabledAt) return null;
+
+  const step = verifyTotp(decryptSecret(user.totpSecret), code.trim());
+
+  if (step === null) return null;
+
+  return db.transaction(async (tx) => {
+    await createPostgresUserRepository(tx).update(user.id, {
+      totpEnabledAt: new Date(),
+      totpLastUsedStep: step,
+    });
+
+    return regenerateRecoveryCodes(user.id, tx);
+  });
+}
+
+export async function disableTotp(userId: number): Promise<void> {
+  await db.transaction(async (tx) => {
+    await createPostgresUserRepository(tx).update(userId, {
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastUsedStep: null,
+    });
+
+    await tx.delete(recoveryCodesTable).where(eq(recoveryCodesTable.userId, userId));
+  });
+}
+
+// Accepts either a TOTP code or an unused recovery code. Both are claimed with a conditional
+// update, so two requests racing with the same code can't both succeed.
+export async function verifySecondFactor(user: UserRecord, code: string): Promise<boolean> {
+  if (!isTotpEnabled(user)) return false;
+
+  const trimmed = code.trim();
+  const step = verifyTotp(decryptSecret(user.totpSecret as string), trimmed, user.totpLastUsedStep);
+
+  if (step !== null) return repository.claimTotpStep(user.id, step);
+
+  const used = await db
+    .update(recoveryCodesTable)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(recoveryCodesTable.userId, user.id),
+        eq(recoveryCodesTable.codeHash, hashToken(normalizeRecoveryCode(trimmed))),
+        isNull(recoveryCodesTable.usedAt)
+      )
+    )
+    .returning({ id: recoveryCodesTable.id });
+
+  return used.length > 0;
+}
@@ -0,0 +1,71 @@
+import type { PGlite } from '@electric-sql/pglite';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getMigrationStatus, listMigrationFiles, runMigrations } from '@/lib/migrations';
+
+const { database } = vi.hoisted(() => ({ database: { client: undefined as PGlite | undefined } }));
+
+// A fresh in-process Postgres per test, behind both the Drizzle instance and the pg pool
+vi.mock('@/lib/db', async () => {
+  const { drizzle } = await import('drizzle-orm/pglite');
+
+  const current = () => database.client as PGlite;
+
+  return {
+    db: {
+      execute: (query: Parameters<ReturnType<typeof drizzle>['execute']>[0]) =>
+        drizzle(current()).execute(query),
+    },
+    pool: {
+      connect: async () => ({
+        query: (text: string, params?: unknown[]) => current().query(text, params),
+        release: () => {},
+      }),
+    },
+  };
+});
+
+describe('migrations', () => {
+  beforeEach(async () => {
+    const { PGlite } = await import('@electric-sql/pglite');
+
+    database.client = new PGlite();
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+  });
+
+  it('applies every file once', async () => {
+    const files = (await listMigrationFiles()).map((file) => file.name);
+
+    expect((await getMigrationStatus()).pending).toEqual(files);
+    expect(await runMigrations()).toEqual(files);
+    expect(await runMigrations()).toEqual([]);
+    expect(await getMigrationStatus()).toEqual({ applied: files, pending: [] });
+  });
+
+  it('adopts the migrations recorded in the legacy drizzle table', async () => {
+    const files = await listMigrationFiles();
+    const client = database.client as PGlite;
+
+    // What a database migrated before schema_migrations existed looks like
+    await runMigrations();
+    await client.exec(`
+      DROP TABLE schema_migrations;
+      CREATE SCHEMA drizzle;
+      CREATE TABLE drizzle.__drizzle_migrations (id SERIAL PRIMARY KEY, hash text NOT NULL);
+    `);
+
+    for (const file of files) {
+      await client.query('INSERT INTO drizzle.__drizzle_migrations (hash) VALUES ($1)', [
+        file.hash,
+      ]);
+    }
+
+    expect((await getMigrationStatus()).pending).toEqual([]);
+    expect(await runMigrations()).toEqual([]);
+
+    const { rows } = await client.query<{ name: string }>(
+      'SELECT name FROM schema_migrations ORDER BY name'
+    );
+
+    expect(rows.map((row) => row.name)).toEqual(files.map((file) => file.name));
+  });
+});
@@ -0,0 +1,148 @@
+import { createHash } from 'node:crypto';
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { sql } from 'drizzle-orm';
+import { db, pool } from '@/lib/db';
+
+// Copied next to server.js in the Docker image
+const MIGRATIONS_DIR = join(process.cwd(), 'drizzle');
+
+// Only this runner writes here. drizzle-kit's migrator can't read the files in drizzle/, they
+// have no journal, so it must not share a table with them.
+const MIGRATIONS_TABLE = 'public.schema_migrations';
+
+// Where this runner recorded migrations before it had a table of its own, read to adopt them
+const LEGACY_MIGRATIONS_TABLE = 'drizzle.__drizzle_migrations';
+
+// Arbitrary, but shared by every instance so only one of them migrates at a time
+const MIGRATION_LOCK_ID = 4_823_017;
+
+const STATEMENT_BREAKPOINT = '--> statement-breakpoint';
+
+export interface MigrationFile {
+  name: string;
+  hash: string;
+}
+
+export async function listMigrationFiles(): Promise<MigrationFile[]> {
+  const names = (await readdir(MIGRATIONS_DIR)).filter((name) => name.endsWith('.sql')).sort();
+
+  return Promise.all(
+    names.map(async (name) => ({
+      name,
+      // Editing an applied file makes it pending again, migrations are meant to be append-only
+      hash: createHash('sha256')
+        .update(await readFile(join(MIGRATIONS_DIR, name), 'utf8'))
+        .digest('hex'),
+    }))
+  );
+}
+
+type Query = <R extends Record<string, unknown>>(text: string) => Promise<R[]>;
+
+async function readAppliedHashes(query: Query): Promise<Set<string>> {
+  const [tables] = await query<{ current: boolean; legacy: boolean }>(
+    `SELECT to_regclass('${MIGRATIONS_TABLE}') IS NOT NULL AS "current", to_regclass('${LEGACY_MIGRATIONS_TABLE}') IS NOT NULL AS "legacy"`
+  );
+
+  // The legacy table counts until the first run of this runner has adopted it
+  const table = tables?.current
+    ? MIGRATIONS_TABLE
+    : tables?.legacy
+      ? LEGACY_MIGRATIONS_TABLE
+      : undefined;
+
+  if (!table) return new Set();
+
+  const rows = await query<{ hash: string }>(`SELECT hash FROM ${table}`);
+
+  return new Set(rows.map((row) => row.hash));
+}
+
+const dbQuery: Query = async <R extends Record<string, unknown>>(text: string) =>
+  (await db.execute(sql.raw(text))).rows as R[];
+
+export interface MigrationStatus {
+  applied: string[];
+  // In the order they would run
+  pending: string[];
+}
+
+export async function getMigrationStatus(): Promise<MigrationStatus> {
+  const [files, applied] = await Promise.all([listMigrationFiles(), readAppliedHashes(dbQuery)]);
+
+  return {
+    applied: files.filter((file) => applied.has(file.hash)).map((file) => file.name),
+    pending: files.filter((file) => !applied.has(file.hash)).map((file) => file.name),
+  };
+}
+
+/**
+ * Applies the pending migrations, each in its own transaction, and returns their names.
+ *
+ * Holds a session-level advisory lock for the whole run, so replicas starting together queue up
+ * behind the first one and find nothing left to apply once it's done.
+ */
+export async function runMigrations(): Promise<string[]> {
+  const client = await pool.connect();
+
+  try {
+    // DATABASE_STATEMENT_TIMEOUT_MS is meant for requests, not for waiting on the lock or a long
+    // migration
+    await client.query('SET statement_timeout = 0');
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+
+    const query: Query = async <R extends Record<string, unknown>>(text: string) =>
+      (await client.query<R>(text)).rows;
+
+    // Read only now, another instance may have applied some while this one waited
+    const applied = await readAppliedHashes(query);
+    const files = await listMigrationFiles();
+    const pending = files.filter((file) => !applied.has(file.hash));
+
+    // Creating the table and adopting what the legacy one recorded happen together, so a crash in
+    // between can't leave an empty table that hides the legacy one
+    await client.query('BEGIN');
+    await client.query(
+      `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (hash text PRIMARY KEY, name text NOT NULL, applied_at timestamptz NOT NULL DEFAULT now())`
+    );
+
+    for (const file of files.filter((candidate) => applied.has(candidate.hash))) {
+      await client.query(
+        `INSERT INTO ${MIGRATIONS_TABLE} (hash, name) VALUES ($1, $2) ON CONFLICT DO NOTHING`,
+        [file.hash, file.name]
+      );
+    }
+
+    await client.query('COMMIT');
+
+    for (const file of pending) {
+      const statements = (await readFile(join(MIGRATIONS_DIR, file.name), 'utf8'))
+        .split(STATEMENT_BREAKPOINT)
+        .map((statement) => statement.trim())
+        .filter(Boolean);
+
+      await client.query('BEGIN');
+
+      try {
+        for (const statement of statements) await client.query(statement);
+
+        await client.query(`INSERT INTO ${MIGRATIONS_TABLE} (hash, name) VALUES ($1, $2)`, [
+          file.hash,
+          file.name,
+        ]);
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw new Error(`Migration ${file.name} failed`, { cause: error });
+      }
+
+      console.info(`[migrations] Applied ${file.name}`);
+    }
+
+    return pending.map((file) => file.name);
+  } finally {
+    // Closing the connection releases the lock and drops the SET above, also after a failure
+    client.release(true);
+  }
+}
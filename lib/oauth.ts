@@ -0,0 +1,250 @@
+import { base64url, createRemoteJWKSet, jwtVerify } from 'jose';
+import { z } from 'zod';
+import { API_KEYS, APP_CONFIG } from '@/lib/config';
+
+export interface OAuthProfile {
+  providerAccountId: string;
+  email: string;
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+  avatar?: string;
+}
+
+export interface AuthorizationRequest {
+  url: URL;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+// Everything a provider needs to implement, so non-OIDC providers like GitHub can plug in
+// their own profile lookup while sharing the PKCE/state handling below
+export interface OAuthProvider {
+  id: string;
+  name: string;
+  createAuthorizationUrl: (params: {
+    redirectUri: string;
+    state: string;
+    nonce: string;
+    codeChallenge: string;
+  }) => Promise<URL>;
+  exchangeCode: (params: {
+    code: string;
+    redirectUri: string;
+    codeVerifier: string;
+    nonce: string;
+  }) => Promise<OAuthProfile>;
+}
+
+export class OAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+const discoverySchema = z.object({
+  issuer: z.string(),
+  authorization_endpoint: z.string().url(),
+  token_endpoint: z.string().url(),
+  jwks_uri: z.string().url(),
+});
+
+const tokenResponseSchema = z.object({
+  access_token: z.string(),
+  id_token: z.string(),
+  token_type: z.string(),
+});
+
+const idTokenClaimsSchema = z.object({
+  sub: z.string(),
+  email: z.string().email(),
+  email_verified: z.union([z.boolean(), z.literal('true'), z.literal('false')]).optional(),
+  given_name: z.string().optional(),
+  family_name: z.string().optional(),
+  picture: z.string().url().optional(),
+});
+
+export function createOidcProvider(config: {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes?: string[];
+}): OAuthProvider {
+  const scopes = config.scopes ?? ['openid', 'email', 'profile'];
+
+  let discovery: Promise<z.infer<typeof discoverySchema>> | undefined;
+  let jwks: ReturnType<typeof createRemoteJWKSet> | undefined;
+
+  const discover = () => {
+    discovery ??= fetch(new URL('.well-known/openid-configuration', `${config.issuer}/`))
+      .then((response) => {
+        if (!response.ok) throw new OAuthError(`OIDC discovery failed for ${config.id}`);
+        return response.json();
+      })
+      .then((body) => discoverySchema.parse(body))
+      .catch((error) => {
+        // Let the next sign-in retry instead of caching the failure forever
+        discovery = undefined;
+        throw error;
+      });
+
+    return discovery;
+  };
+
+  return {
+    id: config.id,
+    name: config.name,
+
+    createAuthorizationUrl: async ({ redirectUri, state, nonce, codeChallenge }) => {
+      const { authorization_endpoint } = await discover();
+      const url = new URL(authorization_endpoint);
+
+      url.search = new URLSearchParams({
+        response_type: 'code',
+        client_id: config.clientId,
+        redirect_uri: redirectUri,
+        scope: scopes.join(' '),
+        state,
+        nonce,
+        code_challenge: codeChallenge,
+        code_challenge_method: 'S256',
+      }).toString();
+
+      return url;
+    },
+
+    exchangeCode: async ({ code, redirectUri, codeVerifier, nonce }) => {
+      const metadata = await discover();
+
+      const response = await fetch(metadata.token_endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: redirectUri,
+          code_verifier: codeVerifier,
+          client_id: config.clientId,
+          client_secret: config.clientSecret,
+        }),
+      });
+
+      if (!response.ok) throw new OAuthError(`Token exchange failed for ${config.id}`);
+
+      const tokens = tokenResponseSchema.parse(await response.json());
+
+      jwks ??= createRemoteJWKSet(new URL(metadata.jwks_uri));
+
+      const { payload } = await jwtVerify(tokens.id_token, jwks, {
+        issuer: metadata.issuer,
+        audience: config.clientId,
+      });
+
+      if (payload.nonce !== nonce) throw new OAuthError('ID token nonce mismatch');
+
+      const claims = idTokenClaimsSchema.parse(payload);
+
+      return {
+        providerAccountId: claims.sub,
+        email: claims.email,
+        emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+        firstName: claims.given_name,
+        lastName: claims.family_name,
+        avatar: claims.picture,
+      };
+    },
+  };
+}
+
+function createProviders(): Record<string, OAuthProvider> {
+  const providers: Record<string, OAuthProvider> = {};
+
+  if (API_KEYS.GOOGLE.CLIENT_ID && API_KEYS.GOOGLE.CLIENT_SECRET) {
+    providers.google = createOidcProvider({
+      id: 'google',
+      name: 'Google',
+      issuer: 'https://accounts.google.com',
+      clientId: API_KEYS.GOOGLE.CLIENT_ID,
+      clientSecret: API_KEYS.GOOGLE.CLIENT_SECRET,
+    });
+  }
+
+  if (API_KEYS.OIDC_MOCK.ISSUER) {
+    providers.mock = createOidcProvider({
+      id: 'mock',
+      name: 'Mock OIDC',
+      issuer: API_KEYS.OIDC_MOCK.ISSUER,
+      clientId: API_KEYS.OIDC_MOCK.CLIENT_ID,
+      clientSecret: API_KEYS.OIDC_MOCK.CLIENT_SECRET,
+    });
+  }
+
+  return providers;
+}
+
+let providers: Record<string, OAuthProvider> | undefined;
+
+export function getOAuthProvider(id: string): OAuthProvider | undefined {
+  providers ??= createProviders();
+  return Object.hasOwn(providers, id) ? providers[id] : undefined;
+}
+
+export function getOAuthRedirectUri(providerId: string): string {
+  return new URL(`/api/auth/oauth/${providerId}/callback`, APP_CONFIG.URL).toString();
+}
+
+function randomToken(): string {
+  return base64url.encode(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export async function createAuthorizationRequest(
+  provider: OAuthProvider
+): Promise<AuthorizationRequest> {
+  const state = randomToken();
+  const nonce = randomToken();
+  const codeVerifier = randomToken();
+  const codeChallenge = base64url.encode(
+    new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier)))
+  );
+
+  const url = await provider.createAuthorizationUrl({
+    redirectUri: getOAuthRedirectUri(provider.id),
+    state,
+    nonce,
+    codeChallenge,
+  });
+
+  return { url, state, nonce, codeVerifier };
+}
+
+export const OAUTH_STATE_COOKIE = 'oauth_state';
+
+const pendingAuthorizationSchema = z.object({
+  provider: z.string(),
+  state: z.string(),
+  nonce: z.string(),
+  codeVerifier: z.string(),
+  redirect: z.string(),
+});
+
+export type PendingAuthorization = z.infer<typeof pendingAuthorizationSchema>;
+
+export function encodePendingAuthorization(pending: PendingAuthorization): string {
+  return base64url.encode(JSON.stringify(pending));
+}
+
+export function decodePendingAuthorization(value: string | undefined): PendingAuthorization | null {
+  if (!value) return null;
+
+  try {
+    const decoded = JSON.parse(new TextDecoder().decode(base64url.decode(value)));
+    const result = pendingAuthorizationSchema.safeParse(decoded);
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
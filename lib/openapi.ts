@@ -0,0 +1,157 @@
+import { type ZodType, z } from 'zod';
+import { PROBLEM_CONTENT_TYPE } from '@/lib/api';
+import { APP_CONFIG } from '@/lib/config';
+import type { RouteDefinition } from '@/lib/handler';
+import { version } from '@/package.json';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// One exported method of a route file, lib/generated/apiRoutes.ts lists them all
+export interface ApiRoute {
+  method: HttpMethod;
+  handler: { definition: RouteDefinition };
+}
+
+type JsonSchema = Record<string, unknown>;
+
+const PROBLEM_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string' },
+    title: { type: 'string' },
+    status: { type: 'integer' },
+    detail: { type: 'string' },
+    instance: { type: 'string' },
+    errors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'array', items: { type: ['string', 'integer'] } },
+          message: { type: 'string' },
+        },
+        required: ['path', 'message'],
+      },
+    },
+  },
+  required: ['type', 'title', 'status', 'detail'],
+};
+
+const PROBLEM_RESPONSE = {
+  description: 'Problem details',
+  content: { [PROBLEM_CONTENT_TYPE]: { schema: { $ref: '#/components/schemas/Problem' } } },
+};
+
+function toJsonSchema(schema: ZodType): JsonSchema {
+  // Input side throughout: it is what clients send, and what handlers hand to NextResponse.json
+  const jsonSchema: JsonSchema = z.toJSONSchema(schema, {
+    io: 'input',
+    unrepresentable: 'any',
+    override: (ctx) => {
+      if (ctx.zodSchema._zod.def.type === 'date') {
+        ctx.jsonSchema.type = 'string';
+        ctx.jsonSchema.format = 'date-time';
+      }
+    },
+  });
+
+  delete jsonSchema.$schema;
+
+  return jsonSchema;
+}
+
+function toParameters(schema: ZodType | undefined, location: 'path' | 'query') {
+  if (!schema) return [];
+
+  const { properties = {}, required = [] } = toJsonSchema(schema) as {
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+  };
+
+  return Object.entries(properties).map(([name, property]) => ({
+    name,
+    in: location,
+    required: location === 'path' || required.includes(name),
+    schema: property,
+  }));
+}
+
+// The failures createHandler itself can produce, anything a handler throws falls under `default`
+function getErrorStatuses(definition: RouteDefinition): number[] {
+  const statuses = [500];
+
+  if (definition.body || definition.query) statuses.push(400);
+  if (definition.auth) statuses.push(401);
+  if (typeof definition.auth === 'string') statuses.push(403);
+  if (definition.params) statuses.push(404);
+  if (definition.rateLimit) statuses.push(429);
+
+  return statuses.sort((a, b) => a - b);
+}
+
+function toOperation(definition: RouteDefinition) {
+  const status = definition.status ?? 200;
+  const responses: Record<string, unknown> = {
+    [status]: definition.response
+      ? {
+          description: 'Success',
+          content: { 'application/json': { schema: toJsonSchema(definition.response) } },
+        }
+      : { description: status >= 300 && status < 400 ? 'Redirect' : 'Success' },
+  };
+
+  for (const errorStatus of getErrorStatuses(definition)) {
+    responses[errorStatus] = PROBLEM_RESPONSE;
+  }
+
+  responses.default = PROBLEM_RESPONSE;
+
+  return {
+    operationId: definition.operationId,
+    summary: definition.summary,
+    description:
+      typeof definition.auth === 'string'
+        ? `Requires the \`${definition.auth}\` permission.`
+        : undefined,
+    tags: [definition.route.split('/')[2]],
+    parameters: [
+      ...toParameters(definition.params, 'path'),
+      ...toParameters(definition.query, 'query'),
+    ],
+    requestBody: definition.body
+      ? {
+          required: true,
+          content: { 'application/json': { schema: toJsonSchema(definition.body) } },
+        }
+      : undefined,
+    responses,
+    security: definition.auth ? [{ cookieAuth: [] }] : undefined,
+  };
+}
+
+/**
+ * Builds the OpenAPI 3.1 document served at /api/openapi.json from the schemas the route
+ * handlers already validate with, so it can't describe an API that doesn't exist.
+ */
+export function buildOpenApiDocument(routes: ApiRoute[]) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const { method, handler } of routes) {
+    const { route } = handler.definition;
+    paths[route] = { ...paths[route], [method.toLowerCase()]: toOperation(handler.definition) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: { title: APP_CONFIG.NAME, description: APP_CONFIG.DESCRIPTION, version },
+    servers: [{ url: APP_CONFIG.URL }],
+    paths,
+    components: {
+      schemas: { Problem: PROBLEM_SCHEMA },
+      securitySchemes: {
+        // Set by the sign-in endpoints, middleware.ts refreshes it from the refresh_token cookie
+        cookieAuth: { type: 'apiKey', in: 'cookie', name: 'access_token' },
+      },
+    },
+  };
+}
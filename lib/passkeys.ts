@@ -0,0 +1,236 @@
+import {
+  type AuthenticationResponseJSON,
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from '@simplewebauthn/server';
+import { and, eq, gt, isNull, lt } from 'drizzle-orm';
+import { base64url } from 'jose';
+import { APP_CONFIG, AUTH_CONFIG } from '@/lib/config';
+import { db } from '@/lib/db';
+import { passkeysTable, webauthnChallengesTable } from '@/lib/schema';
+import { findUserById, type UserRecord } from '@/lib/users';
+
+export type PasskeyRecord = typeof passkeysTable.$inferSelect;
+
+// What the API exposes, the key material stays on the server
+export type Passkey = Pick<
+  PasskeyRecord,
+  'id' | 'name' | 'deviceType' | 'backedUp' | 'lastUsedAt' | 'createdAt'
+>;
+
+type ChallengeType = (typeof webauthnChallengesTable.$inferSelect)['type'];
+
+export class PasskeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PasskeyError';
+  }
+}
+
+export function toPasskey(record: PasskeyRecord): Passkey {
+  const { id, name, deviceType, backedUp, lastUsedAt, createdAt } = record;
+
+  return { id, name, deviceType, backedUp, lastUsedAt, createdAt };
+}
+
+async function storeChallenge(
+  challenge: string,
+  type: ChallengeType,
+  userId: number | null
+): Promise<void> {
+  // Abandoned ceremonies are cleaned up by whoever starts the next one
+  await db.delete(webauthnChallengesTable).where(lt(webauthnChallengesTable.expiresAt, new Date()));
+
+  await db.insert(webauthnChallengesTable).values({
+    challenge,
+    type,
+    userId,
+    expiresAt: new Date(Date.now() + AUTH_CONFIG.WEBAUTHN_CHALLENGE_EXPIRES_IN_MINUTES * 60 * 1000),
+  });
+}
+
+// The challenge is read back out of the signed client data, then deleted in the same statement
+// that checks it, so each one can only ever complete a single ceremony
+async function consumeChallenge(
+  clientDataJSON: string,
+  type: ChallengeType,
+  userId: number | null
+): Promise<string> {
+  let challenge: unknown;
+
+  try {
+    ({ challenge } = JSON.parse(new TextDecoder().decode(base64url.decode(clientDataJSON))));
+  } catch {
+    throw new PasskeyError('Malformed client data');
+  }
+
+  if (typeof challenge !== 'string') throw new PasskeyError('Malformed client data');
+
+  const [consumed] = await db
+    .delete(webauthnChallengesTable)
+    .where(
+      and(
+        eq(webauthnChallengesTable.challenge, challenge),
+        eq(webauthnChallengesTable.type, type),
+        userId === null
+          ? isNull(webauthnChallengesTable.userId)
+          : eq(webauthnChallengesTable.userId, userId),
+        gt(webauthnChallengesTable.expiresAt, new Date())
+      )
+    )
+    .returning({ challenge: webauthnChallengesTable.challenge });
+
+  if (!consumed) throw new PasskeyError('Passkey challenge expired. Please try again.');
+
+  return consumed.challenge;
+}
+
+export async function listPasskeys(userId: number): Promise<PasskeyRecord[]> {
+  return db.select().from(passkeysTable).where(eq(passkeysTable.userId, userId));
+}
+
+export async function deletePasskey(userId: number, passkeyId: number): Promise<boolean> {
+  const deleted = await db
+    .delete(passkeysTable)
+    .where(and(eq(passkeysTable.id, passkeyId), eq(passkeysTable.userId, userId)))
+    .returning({ id: passkeysTable.id });
+
+  return deleted.length > 0;
+}
+
+// Discoverable credentials, so sign-in doesn't need the email first. Attestation isn't
+// requested, which keeps software and platform authenticators on equal footing.
+export async function createRegistrationOptions(
+  user: UserRecord
+): Promise<PublicKeyCredentialCreationOptionsJSON> {
+  const existing = await listPasskeys(user.id);
+
+  const options = await generateRegistrationOptions({
+    rpName: APP_CONFIG.NAME,
+    rpID: AUTH_CONFIG.WEBAUTHN_RP_ID,
+    userName: user.email,
+    userDisplayName: [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email,
+    // Stable per user so re-registering on the same authenticator replaces the old credential
+    userID: new TextEncoder().encode(String(user.id)),
+    attestationType: 'none',
+    excludeCredentials: existing.map((passkey) => ({
+      id: passkey.credentialId,
+      transports: passkey.transports,
+    })),
+    authenticatorSelection: { residentKey: 'required', userVerification: 'preferred' },
+  });
+
+  await storeChallenge(options.challenge, 'registration', user.id);
+
+  return options;
+}
+
+export async function verifyRegistration(
+  user: UserRecord,
+  response: RegistrationResponseJSON,
+  name?: string
+): Promise<PasskeyRecord> {
+  const expectedChallenge = await consumeChallenge(
+    response.response.clientDataJSON,
+    'registration',
+    user.id
+  );
+
+  const verification = await verifyRegistrationResponse({
+    response,
+    expectedChallenge,
+    expectedOrigin: AUTH_CONFIG.WEBAUTHN_ORIGIN,
+    expectedRPID: AUTH_CONFIG.WEBAUTHN_RP_ID,
+    requireUserVerification: false,
+  }).catch((error: Error) => {
+    throw new PasskeyError(error.message);
+  });
+
+  if (!verification.verified) throw new PasskeyError('Passkey registration could not be verified');
+
+  const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+
+  const [passkey] = await db
+    .insert(passkeysTable)
+    .values({
+      userId: user.id,
+      credentialId: credential.id,
+      publicKey: base64url.encode(credential.publicKey),
+      counter: credential.counter,
+      transports: credential.transports ?? [],
+      deviceType: credentialDeviceType,
+      backedUp: credentialBackedUp,
+      name: name || (credentialBackedUp ? 'Synced passkey' : 'Passkey'),
+    })
+    .returning();
+
+  return passkey;
+}
+
+export async function createAuthenticationOptions(): Promise<PublicKeyCredentialRequestOptionsJSON> {
+  const options = await generateAuthenticationOptions({
+    rpID: AUTH_CONFIG.WEBAUTHN_RP_ID,
+    userVerification: 'preferred',
+  });
+
+  await storeChallenge(options.challenge, 'authentication', null);
+
+  return options;
+}
+
+export async function verifyAuthentication(
+  response: AuthenticationResponseJSON
+): Promise<{ user: UserRecord; userVerified: boolean }> {
+  const expectedChallenge = await consumeChallenge(
+    response.response.clientDataJSON,
+    'authentication',
+    null
+  );
+
+  const [passkey] = await db
+    .select()
+    .from(passkeysTable)
+    .where(eq(passkeysTable.credentialId, response.id))
+    .limit(1);
+
+  if (!passkey) throw new PasskeyError('This passkey is not registered');
+
+  // Throws when the sign counter goes backwards, a sign the credential has been cloned
+  const verification = await verifyAuthenticationResponse({
+    response,
+    expectedChallenge,
+    expectedOrigin: AUTH_CONFIG.WEBAUTHN_ORIGIN,
+    expectedRPID: AUTH_CONFIG.WEBAUTHN_RP_ID,
+    credential: {
+      id: passkey.credentialId,
+      publicKey: new Uint8Array(base64url.decode(passkey.publicKey)),
+      counter: passkey.counter,
+      transports: passkey.transports,
+    },
+    requireUserVerification: false,
+  }).catch((error: Error) => {
+    throw new PasskeyError(error.message);
+  });
+
+  if (!verification.verified) throw new PasskeyError('Passkey could not be verified');
+
+  const user = await findUserById(passkey.userId);
+
+  if (!user) throw new PasskeyError('This passkey is not registered');
+
+  await db
+    .update(passkeysTable)
+    .set({
+      counter: verification.authenticationInfo.newCounter,
+      backedUp: verification.authenticationInfo.credentialBackedUp,
+      lastUsedAt: new Date(),
+    })
+    .where(eq(passkeysTable.id, passkey.id));
+
+  return { user, userVerified: verification.authenticationInfo.userVerified };
+}
@@ -0,0 +1,55 @@
+import type { JWTPayload } from '@/lib/auth';
+
+// Free of server-only imports so the same checks run in middleware, route handlers and the client
+
+export const PERMISSIONS = [
+  'profile:read',
+  'profile:update',
+  'admin:access',
+  'users:read',
+  'users:write',
+  'users:delete',
+  'roles:manage',
+  'audit:read',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLES = {
+  ADMIN: 'admin',
+  USER: 'user',
+} as const;
+
+export class AuthorizationError extends Error {
+  readonly status: 401 | 403;
+
+  constructor(status: 401 | 403) {
+    super(status === 401 ? 'Unauthorized' : 'Forbidden');
+    this.name = 'AuthorizationError';
+    this.status = status;
+  }
+}
+
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value);
+}
+
+export function hasPermission(
+  subject: Pick<JWTPayload, 'permissions'> | null | undefined,
+  permission: Permission
+): boolean {
+  return subject?.permissions?.includes(permission) ?? false;
+}
+
+// Pass the session from getSession() in route handlers and server actions, or the verified
+// claims in middleware. Throws so callers can't forget to act on a failed check.
+export function requirePermission(
+  permission: Permission,
+  session: JWTPayload | null | undefined
+): JWTPayload {
+  if (!session) throw new AuthorizationError(401);
+
+  if (!hasPermission(session, permission)) throw new AuthorizationError(403);
+
+  return session;
+}
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+// Variables Next.js inlines into the browser bundle, safe to import from client code. Each one
+// is read by its full name, the inlining only replaces literal `process.env.NEXT_PUBLIC_*`.
+
+export const publicEnvSchema = z.object({
+  NEXT_PUBLIC_SENTRY_DSN: z.url().optional(),
+});
+
+export type PublicEnv = z.infer<typeof publicEnvSchema>;
+
+const emptyToUndefined = (value: string | undefined) => (value === '' ? undefined : value);
+
+export const publicEnvInput = {
+  NEXT_PUBLIC_SENTRY_DSN: emptyToUndefined(process.env.NEXT_PUBLIC_SENTRY_DSN),
+};
+
+// lib/env.ts validates the same values at boot and reports problems there, so the browser
+// only falls back to no values instead of crashing
+const parsed = publicEnvSchema.safeParse(publicEnvInput);
+
+export const publicEnv: PublicEnv = parsed.success ? parsed.data : {};
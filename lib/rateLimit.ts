@@ -0,0 +1,416 @@
+import { eq, sql } from 'drizzle-orm';
+import type { NextResponse } from 'next/server';
+import { problemResponse } from '@/lib/api';
+import { APP_CONFIG, EXTERNAL_SERVICES } from '@/lib/config';
+import { db } from '@/lib/db';
+import { getRedis } from '@/lib/redis';
+import { rateLimitsTable } from '@/lib/schema';
+import { captureException } from '@/lib/sentry';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Milliseconds until the limit fully resets
+  resetMs: number;
+  // Milliseconds until the next request would be allowed, 0 when allowed
+  retryAfterMs: number;
+}
+
+type Transition<S> = (state: S | null, now: number) => { state: S; result: RateLimitResult };
+
+export interface RateLimitStrategy<S = unknown> {
+  ttlMs: number;
+  consume(state: S | null, now: number): { state: S; result: RateLimitResult };
+}
+
+// Stores only need an atomic read-modify-write, the strategies hold all the maths
+export interface RateLimitStore {
+  transact: <S>(key: string, ttlMs: number, transition: Transition<S>) => Promise<RateLimitResult>;
+}
+
+interface SlidingWindowState {
+  windowStart: number;
+  current: number;
+  previous: number;
+}
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Weighted sliding window counter: the previous window's count fades out as the current one
+// progresses, which approximates a true sliding log without storing every timestamp
+export function slidingWindow(options: {
+  limit: number;
+  windowMs: number;
+}): RateLimitStrategy<SlidingWindowState> {
+  const { limit, windowMs } = options;
+
+  return {
+    ttlMs: windowMs * 2,
+    consume: (state, now) => {
+      const windowStart = now - (now % windowMs);
+      let current = 0;
+      let previous = 0;
+
+      if (state?.windowStart === windowStart) {
+        current = state.current;
+        previous = state.previous;
+      } else if (state?.windowStart === windowStart - windowMs) {
+        previous = state.current;
+      }
+
+      const elapsed = (now - windowStart) / windowMs;
+      const weighted = previous * (1 - elapsed) + current;
+      const allowed = weighted < limit;
+
+      if (allowed) current += 1;
+
+      const used = Math.ceil(previous * (1 - elapsed) + current);
+      const resetMs = windowStart + windowMs - now + (previous > 0 ? windowMs : 0);
+
+      return {
+        state: { windowStart, current, previous },
+        result: {
+          allowed,
+          limit,
+          remaining: Math.max(0, limit - used),
+          resetMs,
+          retryAfterMs: allowed ? 0 : windowStart + windowMs - now,
+        },
+      };
+    },
+  };
+}
+
+// Allows bursts up to `capacity`, then settles at `refillPerSecond`
+export function tokenBucket(options: {
+  capacity: number;
+  refillPerSecond: number;
+}): RateLimitStrategy<TokenBucketState> {
+  const { capacity, refillPerSecond } = options;
+  const msPerToken = 1000 / refillPerSecond;
+
+  return {
+    ttlMs: Math.ceil(capacity * msPerToken),
+    consume: (state, now) => {
+      const refilled = state ? (now - state.updatedAt) / msPerToken : capacity;
+      const available = Math.min(capacity, (state?.tokens ?? 0) + refilled);
+      const allowed = available >= 1;
+      const tokens = allowed ? available - 1 : available;
+
+      return {
+        state: { tokens, updatedAt: now },
+        result: {
+          allowed,
+          limit: capacity,
+          remaining: Math.floor(tokens),
+          resetMs: Math.ceil((capacity - tokens) * msPerToken),
+          retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) * msPerToken),
+        },
+      };
+    },
+  };
+}
+
+export function createMemoryStore(): RateLimitStore {
+  const entries = new Map<string, { state: unknown; expiresAt: number }>();
+
+  return {
+    transact: async <S>(key: string, ttlMs: number, transition: Transition<S>) => {
+      const now = Date.now();
+      const entry = entries.get(key);
+      const { state, result } = transition(
+        entry && entry.expiresAt > now ? (entry.state as S) : null,
+        now
+      );
+
+      entries.set(key, { state, expiresAt: now + ttlMs });
+
+      return result;
+    },
+  };
+}
+
+// Writes the new state only if the key still holds what the transition was computed from. A
+// missing key is compared as '', which no stored state serializes to.
+const COMPARE_AND_SET_SCRIPT = `
+if (redis.call('GET', KEYS[1]) or '') ~= ARGV[1] then return 0 end
+redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+return 1
+`;
+
+export function createRedisStore(redis = getRedis()): RateLimitStore {
+  return {
+    transact: async <S>(key: string, ttlMs: number, transition: Transition<S>) => {
+      const redisKey = `rate-limit:${key}`;
+
+      if (redis.status === 'wait') await redis.connect();
+
+      // Optimistic locking, each script runs atomically, so only a concurrent check of the same
+      // key makes it retry
+      for (let attempt = 0; attempt < 5; attempt++) {
+        const raw = await redis.get(redisKey);
+        const { state, result } = transition(raw ? (JSON.parse(raw) as S) : null, Date.now());
+        const committed = await redis.eval(
+          COMPARE_AND_SET_SCRIPT,
+          1,
+          redisKey,
+          raw ?? '',
+          JSON.stringify(state),
+          ttlMs
+        );
+
+        if (committed === 1) return result;
+      }
+
+      throw new Error(`Rate limit key "${key}" is too contended`);
+    },
+  };
+}
+
+export function createPostgresStore(): RateLimitStore {
+  return {
+    transact: async <S>(key: string, ttlMs: number, transition: Transition<S>) => {
+      // Expired rows are reused in place, an occasional sweep stops abandoned keys piling up
+      if (Math.random() < 0.01) {
+        await db.delete(rateLimitsTable).where(sql`${rateLimitsTable.expiresAt} < now()`);
+      }
+
+      return db.transaction(async (tx) => {
+        await tx
+          .insert(rateLimitsTable)
+          .values({ key, state: {}, expiresAt: new Date(0) })
+          .onConflictDoNothing();
+
+        const [row] = await tx
+          .select()
+          .from(rateLimitsTable)
+          .where(eq(rateLimitsTable.key, key))
+          .for('update');
+
+        const now = Date.now();
+        const { state, result } = transition(
+          row.expiresAt.getTime() > now ? (row.state as S) : null,
+          now
+        );
+
+        await tx
+          .update(rateLimitsTable)
+          .set({ state, expiresAt: new Date(now + ttlMs) })
+          .where(eq(rateLimitsTable.key, key));
+
+        return result;
+      });
+    },
+  };
+}
+
+export function createFallbackStore(
+  primary: RateLimitStore,
+  fallback: RateLimitStore
+): RateLimitStore {
+  return {
+    transact: async (key, ttlMs, transition) => {
+      try {
+        return await primary.transact(key, ttlMs, transition);
+      } catch (error) {
+        captureException(error as Error, { operation: 'rate-limit', fallback: true });
+        return fallback.transact(key, ttlMs, transition);
+      }
+    },
+  };
+}
+
+function createStore(kind: typeof EXTERNAL_SERVICES.RATE_LIMIT_STORE): RateLimitStore {
+  switch (kind) {
+    case 'redis':
+      return createFallbackStore(createRedisStore(), createPostgresStore());
+    case 'postgres':
+      return createPostgresStore();
+    default:
+      return createMemoryStore();
+  }
+}
+
+let defaultStore: RateLimitStore | undefined;
+
+function getStore(): RateLimitStore {
+  defaultStore ??= createStore(EXTERNAL_SERVICES.RATE_LIMIT_STORE);
+  return defaultStore;
+}
+
+export type RateLimitKey = 'ip' | 'email' | 'user';
+
+export interface RateLimitRule {
+  strategy: RateLimitStrategy;
+  // Each key is limited separately, the request is rejected if any of them is exhausted
+  keys: RateLimitKey[];
+}
+
+export const RATE_LIMITS = {
+  login: {
+    strategy: slidingWindow({ limit: 10, windowMs: 15 * 60 * 1000 }),
+    keys: ['ip', 'email'],
+  },
+  register: {
+    strategy: slidingWindow({ limit: 5, windowMs: 60 * 60 * 1000 }),
+    keys: ['ip'],
+  },
+  refresh: {
+    strategy: tokenBucket({ capacity: 20, refillPerSecond: 0.5 }),
+    keys: ['ip'],
+  },
+  forgotPassword: {
+    strategy: slidingWindow({ limit: 3, windowMs: 60 * 60 * 1000 }),
+    keys: ['ip', 'email'],
+  },
+  resetPassword: {
+    strategy: slidingWindow({ limit: 5, windowMs: 15 * 60 * 1000 }),
+    keys: ['ip'],
+  },
+  verifyEmail: {
+    strategy: slidingWindow({ limit: 10, windowMs: 15 * 60 * 1000 }),
+    keys: ['ip'],
+  },
+  requestEmailVerification: {
+    strategy: slidingWindow({ limit: 3, windowMs: 60 * 60 * 1000 }),
+    keys: ['user'],
+  },
+  changePassword: {
+    strategy: slidingWindow({ limit: 5, windowMs: 15 * 60 * 1000 }),
+    keys: ['user'],
+  },
+  mfaVerify: {
+    strategy: slidingWindow({ limit: 5, windowMs: 5 * 60 * 1000 }),
+    keys: ['ip', 'user'],
+  },
+  mfaManage: {
+    strategy: slidingWindow({ limit: 10, windowMs: 15 * 60 * 1000 }),
+    keys: ['user'],
+  },
+  passkeyLogin: {
+    strategy: tokenBucket({ capacity: 10, refillPerSecond: 0.2 }),
+    keys: ['ip'],
+  },
+  passkeyManage: {
+    strategy: slidingWindow({ limit: 10, windowMs: 15 * 60 * 1000 }),
+    keys: ['user'],
+  },
+  sessionsManage: {
+    strategy: slidingWindow({ limit: 20, windowMs: 15 * 60 * 1000 }),
+    keys: ['user'],
+  },
+  // Each export reads the whole matching log
+  auditExport: {
+    strategy: slidingWindow({ limit: 5, windowMs: 15 * 60 * 1000 }),
+    keys: ['user'],
+  },
+  // A broken policy makes every page load report, this keeps Sentry from being flooded
+  cspReport: {
+    strategy: tokenBucket({ capacity: 20, refillPerSecond: 0.1 }),
+    keys: ['ip'],
+  },
+} satisfies Record<string, RateLimitRule>;
+
+export type RateLimitName = keyof typeof RATE_LIMITS;
+
+export interface RateLimitIdentity {
+  email?: string;
+  userId?: string;
+}
+
+export type RateLimitCheck =
+  | { success: true; result: RateLimitResult }
+  | { success: false; result: RateLimitResult; response: NextResponse };
+
+// Every proxy appends the address it got the request from, so only the last TRUSTED_PROXY_HOPS
+// entries were written by our own infrastructure. Anything left of them came from the client, and
+// taking it would let a client pick a fresh rate limit key per request. Without a trusted proxy
+// every header is the client's own, so there is no address at all.
+export function getClientIp(request: Pick<Request, 'headers'>): string | null {
+  const hops = APP_CONFIG.TRUSTED_PROXY_HOPS;
+
+  if (hops === 0) return null;
+
+  const forwardedFor = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+
+  // Fewer entries than hops means the request skipped a proxy, the first one is still ours
+  const clientIp = forwardedFor[Math.max(0, forwardedFor.length - hops)];
+
+  return clientIp || request.headers.get('x-real-ip') || null;
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(Math.ceil(result.resetMs / 1000)),
+  };
+
+  if (!result.allowed) headers['Retry-After'] = String(Math.ceil(result.retryAfterMs / 1000));
+
+  return headers;
+}
+
+export function withRateLimitHeaders<T extends Response>(response: T, result: RateLimitResult): T {
+  for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+    response.headers.set(name, value);
+  }
+
+  return response;
+}
+
+export async function rateLimit(
+  request: Request,
+  name: RateLimitName,
+  identity: RateLimitIdentity = {},
+  store: RateLimitStore = getStore()
+): Promise<RateLimitCheck> {
+  const rule: RateLimitRule = RATE_LIMITS[name];
+  // Keys without a value are skipped, one bucket shared by every unknown client would let
+  // anyone lock everyone else out
+  const identifiers: Record<RateLimitKey, string | undefined> = {
+    ip: getClientIp(request) ?? undefined,
+    email: identity.email?.trim().toLowerCase(),
+    user: identity.userId,
+  };
+
+  const results = await Promise.all(
+    rule.keys
+      .filter((key) => identifiers[key])
+      .map((key) =>
+        store.transact(`${name}:${key}:${identifiers[key]}`, rule.strategy.ttlMs, (state, now) =>
+          rule.strategy.consume(state, now)
+        )
+      )
+  );
+
+  // Report the tightest of the limits so clients back off for the right amount of time
+  const result = results.reduce<RateLimitResult | undefined>((tightest, current) => {
+    if (!tightest) return current;
+    if (current.allowed !== tightest.allowed) return current.allowed ? tightest : current;
+    return current.remaining < tightest.remaining ? current : tightest;
+  }, undefined) ?? {
+    allowed: true,
+    limit: 0,
+    remaining: 0,
+    resetMs: 0,
+    retryAfterMs: 0,
+  };
+
+  if (result.allowed) return { success: true, result };
+
+  return {
+    success: false,
+    result,
+    response: problemResponse(429, 'Too many requests. Please try again later.', {
+      headers: rateLimitHeaders(result),
+    }),
+  };
+}
@@ -0,0 +1,16 @@
+import Redis from 'ioredis';
+import { EXTERNAL_SERVICES } from '@/lib/config';
+
+let client: Redis | undefined;
+
+// Fails fast instead of queueing commands while disconnected, so callers can fall back
+export function getRedis(): Redis {
+  client ??= new Redis(EXTERNAL_SERVICES.REDIS_URL, {
+    lazyConnect: true,
+    enableOfflineQueue: false,
+    maxRetriesPerRequest: 1,
+    connectTimeout: 2000,
+  });
+
+  return client;
+}
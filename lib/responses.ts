@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import { PERMISSIONS } from '@/lib/permissions';
+
+// Response bodies of the API routes, checked by createHandler outside production. Dates are
+// Date objects here and ISO strings on the wire.
+
+// Strict so a new column on users can't reach clients without being listed here
+export const authUserSchema = z.strictObject({
+  id: z.number().int(),
+  email: z.string(),
+  firstName: z.string().nullable(),
+  lastName: z.string().nullable(),
+  bio: z.string().nullable(),
+  avatar: z.string().nullable(),
+  emailVerifiedAt: z.date().nullable(),
+  lastLoginAt: z.date().nullable(),
+  totpEnabledAt: z.date().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  roles: z.array(z.string()),
+  permissions: z.array(z.enum(PERMISSIONS)),
+});
+
+export const userResponseSchema = z.object({ user: authUserSchema });
+
+export const successResponseSchema = z.object({ success: z.literal(true) });
+
+export const csrfTokenResponseSchema = z.object({ csrfToken: z.string() });
+
+export const mfaRequiredResponseSchema = z.object({
+  mfaRequired: z.literal(true),
+  mfaToken: z.string(),
+});
+
+export const loginResponseSchema = z.union([userResponseSchema, mfaRequiredResponseSchema]);
+
+export const totpEnrollmentResponseSchema = z.object({
+  secret: z.string(),
+  otpauthUri: z.string(),
+  qrCode: z.string(),
+});
+
+export const recoveryCodesResponseSchema = z.object({ recoveryCodes: z.array(z.string()) });
+
+export const passkeySchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  deviceType: z.string(),
+  backedUp: z.boolean(),
+  lastUsedAt: z.date().nullable(),
+  createdAt: z.date(),
+});
+
+// Passed straight to @simplewebauthn/browser, which owns the rest of the shape
+export const webauthnOptionsResponseSchema = z.object({ challenge: z.string() });
+
+export const userSessionSchema = z.object({
+  id: z.uuid(),
+  userAgent: z.string().nullable(),
+  ipAddress: z.string().nullable(),
+  createdAt: z.date(),
+  lastSeenAt: z.date(),
+  current: z.boolean(),
+});
+
+export const auditEventSchema = z.object({
+  id: z.number().int(),
+  actorId: z.number().int().nullable(),
+  // Plain strings, the log keeps events of actions that have since been renamed or removed
+  action: z.string(),
+  targetType: z.string().nullable(),
+  targetId: z.string().nullable(),
+  ipAddress: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  metadata: z.record(z.string(), z.unknown()),
+  createdAt: z.date(),
+  previousHash: z.string().nullable(),
+  hash: z.string(),
+});
+
+export const auditEventListResponseSchema = z.object({
+  events: z.array(auditEventSchema),
+  nextCursor: z.number().int().nullable(),
+});
@@ -1 +1,56 @@
-export const ROUTES = {};
+import type { Permission } from '@/lib/permissions';
+
+export const ROUTES = {
+  HOME: '/',
+  LOGIN: '/login',
+  REGISTER: '/register',
+  FORGOT_PASSWORD: '/forgot-password',
+  RESET_PASSWORD: '/reset-password',
+  VERIFY_EMAIL: '/verify-email',
+  DASHBOARD: '/dashboard',
+  PROFILE: '/profile',
+  SETTINGS: '/settings',
+  ADMIN: '/admin',
+} as const;
+
+export type Route = (typeof ROUTES)[keyof typeof ROUTES];
+
+// Routes that need a signed-in user, matched on the path and everything below it
+export const PROTECTED_ROUTES: Route[] = [ROUTES.DASHBOARD, ROUTES.PROFILE, ROUTES.SETTINGS];
+
+// Routes only meant for signed-out users, signed-in users are sent to the dashboard
+export const AUTH_ROUTES: Route[] = [
+  ROUTES.LOGIN,
+  ROUTES.REGISTER,
+  ROUTES.FORGOT_PASSWORD,
+  ROUTES.RESET_PASSWORD,
+];
+
+// Routes that need a specific permission on top of being signed in
+export const PERMISSION_ROUTES: Record<string, Permission> = {
+  [ROUTES.ADMIN]: 'admin:access',
+  '/api/admin': 'admin:access',
+};
+
+// Mutations middleware.ts lets through without a CSRF token. Browsers post CSP reports on their
+// own, without the header, and a report changes no state
+export const CSRF_EXEMPT_ROUTES: string[] = ['/api/csp-report'];
+
+export function matchesRoute(pathname: string, routes: readonly string[]): boolean {
+  return routes.some((route) => pathname === route || pathname.startsWith(`${route}/`));
+}
+
+export function getRequiredPermission(pathname: string): Permission | undefined {
+  const route = Object.keys(PERMISSION_ROUTES).find((candidate) =>
+    matchesRoute(pathname, [candidate])
+  );
+
+  return route ? PERMISSION_ROUTES[route] : undefined;
+}
+
+// Only same-origin paths, so a crafted `redirect` parameter can't bounce users to another site
+export function getSafeRedirectPath(value: string | null | undefined, fallback: Route): string {
+  if (!value?.startsWith('/') || value.startsWith('//') || value.startsWith('/\\')) return fallback;
+
+  return value;
+}
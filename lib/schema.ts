@@ -1,9 +1,257 @@
-import { integer, pgTable, timestamp, varchar } from 'drizzle-orm/pg-core';
+import {
+  bigint,
+  boolean,
+  index,
+  integer,
+  jsonb,
+  pgEnum,
+  pgTable,
+  primaryKey,
+  timestamp,
+  uniqueIndex,
+  uuid,
+  varchar,
+} from 'drizzle-orm/pg-core';
 
 export const usersTable = pgTable('users', {
   id: integer().primaryKey().generatedAlwaysAsIdentity(),
   email: varchar({ length: 255 }).notNull().unique(),
-  password: varchar({ length: 255 }).notNull(),
+  // Null for accounts that only sign in through an OAuth provider
+  password: varchar({ length: 255 }),
+  firstName: varchar('first_name', { length: 50 }),
+  lastName: varchar('last_name', { length: 50 }),
+  bio: varchar({ length: 500 }),
+  avatar: varchar({ length: 2048 }),
+  emailVerifiedAt: timestamp('email_verified_at'),
+  lastLoginAt: timestamp('last_login_at'),
+  failedLoginAttempts: integer('failed_login_attempts').notNull().default(0),
+  lockedUntil: timestamp('locked_until'),
+  // AES-GCM encrypted, see lib/mfa.ts. Set during enrollment, only enforced once enabled.
+  totpSecret: varchar('totp_secret', { length: 255 }),
+  totpEnabledAt: timestamp('totp_enabled_at'),
+  // Time step of the last accepted code, so a code can't be replayed inside its window
+  totpLastUsedStep: integer('totp_last_used_step'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  deletedAt: timestamp('deleted_at'),
 });
+
+// One row per sign-in, i.e. per refresh token family. Its id is carried in the access token
+// as `sessionId` so a request can tell which session it belongs to.
+export const sessionsTable = pgTable(
+  'sessions',
+  {
+    id: uuid().primaryKey().defaultRandom(),
+    userId: integer('user_id')
+      .notNull()
+      .references(() => usersTable.id, { onDelete: 'cascade' }),
+    userAgent: varchar('user_agent', { length: 512 }),
+    ipAddress: varchar('ip_address', { length: 45 }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+    // Bumped on every refresh, so it is accurate to within one access token lifetime
+    lastSeenAt: timestamp('last_seen_at').notNull().defaultNow(),
+    expiresAt: timestamp('expires_at').notNull(),
+    revokedAt: timestamp('revoked_at'),
+  },
+  (table) => [index('sessions_user_id_idx').on(table.userId)]
+);
+
+export const refreshTokensTable = pgTable(
+  'refresh_tokens',
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    userId: integer('user_id')
+      .notNull()
+      .references(() => usersTable.id, { onDelete: 'cascade' }),
+    // SHA-256 of the tokenId claim, the raw id only ever lives inside the signed cookie
+    tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+    familyId: uuid('family_id')
+      .notNull()
+      .references(() => sessionsTable.id, { onDelete: 'cascade' }),
+    expiresAt: timestamp('expires_at').notNull(),
+    revokedAt: timestamp('revoked_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => [
+    index('refresh_tokens_family_id_idx').on(table.familyId),
+    index('refresh_tokens_user_id_idx').on(table.userId),
+  ]
+);
+
+export const accountsTable = pgTable(
+  'accounts',
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    userId: integer('user_id')
+      .notNull()
+      .references(() => usersTable.id, { onDelete: 'cascade' }),
+    provider: varchar({ length: 50 }).notNull(),
+    providerAccountId: varchar('provider_account_id', { length: 255 }).notNull(),
+    email: varchar({ length: 255 }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('accounts_provider_account_idx').on(table.provider, table.providerAccountId),
+    index('accounts_user_id_idx').on(table.userId),
+  ]
+);
+
+export const recoveryCodesTable = pgTable(
+  'recovery_codes',
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    userId: integer('user_id')
+      .notNull()
+      .references(() => usersTable.id, { onDelete: 'cascade' }),
+    codeHash: varchar('code_hash', { length: 64 }).notNull(),
+    usedAt: timestamp('used_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => [index('recovery_codes_user_id_idx').on(table.userId)]
+);
+
+// WebAuthn credentials, credentialId and publicKey are base64url as produced by the browser
+export const passkeysTable = pgTable(
+  'passkeys',
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    userId: integer('user_id')
+      .notNull()
+      .references(() => usersTable.id, { onDelete: 'cascade' }),
+    credentialId: varchar('credential_id', { length: 1024 }).notNull().unique(),
+    publicKey: varchar('public_key', { length: 2048 }).notNull(),
+    // Unsigned 32-bit on the authenticator, which overflows a Postgres integer
+    counter: bigint({ mode: 'number' }).notNull().default(0),
+    transports: jsonb().$type<string[]>().notNull().default([]),
+    deviceType: varchar('device_type', { length: 32 }).notNull(),
+    backedUp: boolean('backed_up').notNull().default(false),
+    name: varchar({ length: 100 }).notNull(),
+    lastUsedAt: timestamp('last_used_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => [index('passkeys_user_id_idx').on(table.userId)]
+);
+
+export const webauthnChallengeType = pgEnum('webauthn_challenge_type', [
+  'registration',
+  'authentication',
+]);
+
+// One row per ceremony, consumed by the matching verify call or left to expire
+export const webauthnChallengesTable = pgTable(
+  'webauthn_challenges',
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    challenge: varchar({ length: 255 }).notNull().unique(),
+    type: webauthnChallengeType().notNull(),
+    // Null for sign-in, where the user is only known once a credential is presented
+    userId: integer('user_id').references(() => usersTable.id, { onDelete: 'cascade' }),
+    expiresAt: timestamp('expires_at').notNull(),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => [index('webauthn_challenges_expires_at_idx').on(table.expiresAt)]
+);
+
+export const verificationTokenType = pgEnum('verification_token_type', [
+  'email_verification',
+  'password_reset',
+]);
+
+export const verificationTokensTable = pgTable(
+  'verification_tokens',
+  {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    userId: integer('user_id')
+      .notNull()
+      .references(() => usersTable.id, { onDelete: 'cascade' }),
+    type: verificationTokenType().notNull(),
+    tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+    expiresAt: timestamp('expires_at').notNull(),
+    consumedAt: timestamp('consumed_at'),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => [index('verification_tokens_user_id_type_idx').on(table.userId, table.type)]
+);
+
+export const rolesTable = pgTable('roles', {
+  id: integer().primaryKey().generatedAlwaysAsIdentity(),
+  name: varchar({ length: 50 }).notNull().unique(),
+  description: varchar({ length: 255 }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// Permission names are validated against PERMISSIONS in lib/permissions.ts
+export const rolePermissionsTable = pgTable(
+  'role_permissions',
+  {
+    roleId: integer('role_id')
+      .notNull()
+      .references(() => rolesTable.id, { onDelete: 'cascade' }),
+    permission: varchar({ length: 100 }).notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.roleId, table.permission] })]
+);
+
+export const userRolesTable = pgTable(
+  'user_roles',
+  {
+    userId: integer('user_id')
+      .notNull()
+      .references(() => usersTable.id, { onDelete: 'cascade' }),
+    roleId: integer('role_id')
+      .notNull()
+      .references(() => rolesTable.id, { onDelete: 'cascade' }),
+    createdAt: timestamp('created_at').notNull().defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.userId, table.roleId] })]
+);
+
+// Postgres-backed store for lib/rateLimit.ts when Redis is unavailable
+export const rateLimitsTable = pgTable(
+  'rate_limits',
+  {
+    key: varchar({ length: 255 }).primaryKey(),
+    state: jsonb().notNull(),
+    expiresAt: timestamp('expires_at').notNull(),
+  },
+  (table) => [index('rate_limits_expires_at_idx').on(table.expiresAt)]
+);
+
+// Responses stored for replay under an Idempotency-Key, see lib/idempotency.ts
+export const idempotencyKeysTable = pgTable(
+  'idempotency_keys',
+  {
+    // SHA-256 of the method, route, user and client key
+    key: varchar({ length: 64 }).primaryKey(),
+    entry: jsonb().notNull(),
+    expiresAt: timestamp('expires_at').notNull(),
+  },
+  (table) => [index('idempotency_keys_expires_at_idx').on(table.expiresAt)]
+);
+
+// Append-only, a trigger rejects updates and deletes. Each row's hash covers its fields and the
+// previous row's hash, so an edit made around the trigger breaks the chain from there on (see
+// verifyAuditChain in lib/audit.ts).
+export const auditEventsTable = pgTable(
+  'audit_events',
+  {
+    id: bigint({ mode: 'number' }).primaryKey().generatedAlwaysAsIdentity(),
+    // No foreign key, the record has to outlive the user and can't be touched by a cascade
+    actorId: integer('actor_id'),
+    action: varchar({ length: 64 }).notNull(),
+    targetType: varchar('target_type', { length: 32 }),
+    targetId: varchar('target_id', { length: 64 }),
+    ipAddress: varchar('ip_address', { length: 45 }),
+    userAgent: varchar('user_agent', { length: 512 }),
+    metadata: jsonb().$type<Record<string, unknown>>().notNull().default({}),
+    createdAt: timestamp('created_at').notNull(),
+    previousHash: varchar('previous_hash', { length: 64 }),
+    hash: varchar({ length: 64 }).notNull().unique(),
+  },
+  (table) => [
+    index('audit_events_actor_id_idx').on(table.actorId),
+    index('audit_events_action_idx').on(table.action),
+    index('audit_events_target_idx').on(table.targetType, table.targetId),
+    index('audit_events_created_at_idx').on(table.createdAt),
+  ]
+);
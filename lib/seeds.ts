@@ -0,0 +1,139 @@
+import { hashPassword } from '@/lib/auth';
+import { APP_CONFIG } from '@/lib/config';
+import { db } from '@/lib/db';
+import { ROLES } from '@/lib/permissions';
+import { usersTable } from '@/lib/schema';
+import { assignRole, normalizeEmail } from '@/lib/userRepository';
+
+export type SeedEnvironment = typeof APP_CONFIG.ENVIRONMENT;
+
+type SeedExecutor = Pick<typeof db, 'insert' | 'select'>;
+
+type Role = (typeof ROLES)[keyof typeof ROLES];
+
+/**
+ * A named batch of rows. Seeds run again on every start with DATABASE_SEED_ON_START, so they have
+ * to skip rows that already exist instead of failing or overwriting them.
+ */
+export interface Seed {
+  name: string;
+  run: (tx: SeedExecutor) => Promise<void>;
+}
+
+export interface SeedUser {
+  email: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+  roles: Role[];
+  verified?: boolean;
+  lockedUntil?: Date;
+  deletedAt?: Date;
+}
+
+// Existing users are left alone, including any changes made to them since they were seeded
+function seedUsers(name: string, users: SeedUser[]): Seed {
+  return {
+    name,
+    run: async (tx) => {
+      for (const { email, password, roles, verified = true, ...profile } of users) {
+        const [created] = await tx
+          .insert(usersTable)
+          .values({
+            ...profile,
+            email: normalizeEmail(email),
+            password: await hashPassword(password),
+            emailVerifiedAt: verified ? new Date() : null,
+          })
+          .onConflictDoNothing({ target: usersTable.email })
+          .returning({ id: usersTable.id });
+
+        if (!created) continue;
+
+        for (const role of roles) await assignRole(created.id, role, tx);
+      }
+    },
+  };
+}
+
+// Both meet the password rules of the registration and reset forms
+export const DEMO_PASSWORD = 'DemoPassword1!';
+
+export const TEST_PASSWORD = 'TestPassword1!';
+
+const FAR_FUTURE = new Date('2100-01-01T00:00:00Z');
+
+export const SEED_SETS: Record<SeedEnvironment, Seed[]> = {
+  development: [
+    seedUsers('demo-users', [
+      {
+        email: 'admin@example.com',
+        password: DEMO_PASSWORD,
+        firstName: 'Ada',
+        lastName: 'Admin',
+        roles: [ROLES.USER, ROLES.ADMIN],
+      },
+      {
+        email: 'user@example.com',
+        password: DEMO_PASSWORD,
+        firstName: 'Uma',
+        lastName: 'User',
+        roles: [ROLES.USER],
+      },
+    ]),
+  ],
+  // One user per account state the auth flows branch on
+  test: [
+    seedUsers('fixture-users', [
+      {
+        email: 'admin@test.local',
+        password: TEST_PASSWORD,
+        firstName: 'Test',
+        lastName: 'Admin',
+        roles: [ROLES.USER, ROLES.ADMIN],
+      },
+      {
+        email: 'user@test.local',
+        password: TEST_PASSWORD,
+        firstName: 'Test',
+        lastName: 'User',
+        roles: [ROLES.USER],
+      },
+      {
+        email: 'unverified@test.local',
+        password: TEST_PASSWORD,
+        firstName: 'Test',
+        lastName: 'Unverified',
+        roles: [ROLES.USER],
+        verified: false,
+      },
+      {
+        email: 'locked@test.local',
+        password: TEST_PASSWORD,
+        firstName: 'Test',
+        lastName: 'Locked',
+        roles: [ROLES.USER],
+        lockedUntil: FAR_FUTURE,
+      },
+      {
+        email: 'deleted@test.local',
+        password: TEST_PASSWORD,
+        firstName: 'Test',
+        lastName: 'Deleted',
+        roles: [ROLES.USER],
+        deletedAt: new Date('2024-01-01T00:00:00Z'),
+      },
+    ]),
+  ],
+  // Roles and permissions come from the migrations, production gets no made-up data
+  production: [],
+};
+
+// Each seed commits on its own, a failing one leaves the seeds before it in place
+export async function runSeeds(environment: SeedEnvironment = APP_CONFIG.ENVIRONMENT) {
+  for (const seed of SEED_SETS[environment]) {
+    await db.transaction((tx) => seed.run(tx));
+
+    console.info(`[seeds] Ran ${environment}/${seed.name}`);
+  }
+}
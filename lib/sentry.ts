@@ -40,6 +40,15 @@ export const withSentryErrorTracking = <T extends unknown[], R>(
   };
 };
 
+// Query parameters hold emails, password hashes and token digests, so only their shape is sent
+const redactParam = (param: unknown) => {
+  if (param === null || param === undefined) return String(param);
+  if (typeof param === 'string') return `[string(${param.length})]`;
+  if (param instanceof Date) return '[date]';
+
+  return `[${typeof param}]`;
+};
+
 export const trackDatabaseError = (error: Error, query?: string, params?: unknown[]) => {
   captureException(error, {
     tags: {
@@ -47,9 +56,7 @@ export const trackDatabaseError = (error: Error, query?: string, params?: unknow
     },
     extra: {
       query,
-      params: params?.map((param) =>
-        typeof param === 'object' ? JSON.stringify(param) : String(param)
-      ),
+      params: params?.map(redactParam),
     },
   });
 };
@@ -82,12 +89,46 @@ export const trackApiError = (error: Error, route: string, method: string, userI
   });
 };
 
+export interface CspViolation {
+  directive: string;
+  blockedUri?: string;
+  documentUri: string;
+  disposition?: string;
+  sourceFile?: string;
+  lineNumber?: number;
+  columnNumber?: number;
+  sample?: string;
+}
+
+export const trackCspViolation = (violation: CspViolation) => {
+  Sentry.captureMessage(
+    `CSP violation: ${violation.directive} blocked ${violation.blockedUri || 'inline'}`,
+    {
+      level: 'warning',
+      tags: {
+        component: 'csp',
+        directive: violation.directive,
+        disposition: violation.disposition || 'enforce',
+      },
+      extra: { ...violation },
+    }
+  );
+};
+
+// Tags everything captured while `fn` runs, including errors Sentry picks up on its own
+export const withApiScope = <R>(route: string, method: string, fn: () => Promise<R>): Promise<R> =>
+  Sentry.withScope((scope) => {
+    scope.setTags({ component: 'api', route, method });
+    return fn();
+  });
+
 export const trackValidationError = (errors: Record<string, string[]>, formName: string) => {
-  captureMessage(`Validation errors in ${formName}`, 'warning');
+  // Context first, it only reaches events captured after it is set
   setContext('validation_errors', {
     form: formName,
     errors,
   });
+  captureMessage(`Validation errors in ${formName}`, 'warning');
 };
 
 export const withPerformanceTracking = <T extends unknown[], R>(
@@ -0,0 +1,135 @@
+import { and, desc, eq, gt, inArray, isNull, ne, type SQL } from 'drizzle-orm';
+import { headers } from 'next/headers';
+import { db } from '@/lib/db';
+import { getClientIp } from '@/lib/rateLimit';
+import { refreshTokensTable, sessionsTable } from '@/lib/schema';
+
+export type SessionRecord = typeof sessionsTable.$inferSelect;
+
+// What the sessions API returns, `current` marks the session making the request
+export type UserSession = Pick<
+  SessionRecord,
+  'id' | 'userAgent' | 'ipAddress' | 'createdAt' | 'lastSeenAt'
+> & { current: boolean };
+
+export interface SessionMetadata {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+type Executor = Pick<typeof db, 'insert' | 'update'>;
+
+export function toUserSession(record: SessionRecord, currentSessionId?: string): UserSession {
+  const { id, userAgent, ipAddress, createdAt, lastSeenAt } = record;
+
+  return { id, userAgent, ipAddress, createdAt, lastSeenAt, current: id === currentSessionId };
+}
+
+// Read from the incoming request, including the refresh middleware.ts makes on the client's behalf
+export async function getSessionMetadata(): Promise<SessionMetadata> {
+  const headerStore = await headers();
+  const ipAddress = getClientIp({ headers: headerStore });
+
+  return {
+    userAgent: headerStore.get('user-agent')?.slice(0, 512) || null,
+    ipAddress: ipAddress?.slice(0, 45) ?? null,
+  };
+}
+
+export async function createSession(
+  userId: number,
+  expiresAt: Date,
+  metadata: SessionMetadata,
+  executor: Executor = db
+): Promise<string> {
+  const [session] = await executor
+    .insert(sessionsTable)
+    .values({ userId, expiresAt, ...metadata })
+    .returning({ id: sessionsTable.id });
+
+  return session.id;
+}
+
+export async function touchSession(
+  sessionId: string,
+  expiresAt: Date,
+  metadata: SessionMetadata,
+  executor: Executor = db
+): Promise<void> {
+  await executor
+    .update(sessionsTable)
+    .set({ lastSeenAt: new Date(), expiresAt, ...metadata })
+    .where(eq(sessionsTable.id, sessionId));
+}
+
+export async function listActiveSessions(userId: number): Promise<SessionRecord[]> {
+  return db
+    .select()
+    .from(sessionsTable)
+    .where(
+      and(
+        eq(sessionsTable.userId, userId),
+        isNull(sessionsTable.revokedAt),
+        gt(sessionsTable.expiresAt, new Date())
+      )
+    )
+    .orderBy(desc(sessionsTable.lastSeenAt));
+}
+
+// Ends the session and every refresh token in it. Access tokens already handed out keep
+// working until they expire, which is at most ACCESS_TOKEN_EXPIRES_IN.
+async function revokeSessions(
+  condition: SQL | undefined,
+  executor: Executor = db
+): Promise<string[]> {
+  const now = new Date();
+
+  const revoked = await executor
+    .update(sessionsTable)
+    .set({ revokedAt: now })
+    .where(and(condition, isNull(sessionsTable.revokedAt)))
+    .returning({ id: sessionsTable.id });
+
+  const ids = revoked.map(({ id }) => id);
+
+  if (ids.length > 0) {
+    await executor
+      .update(refreshTokensTable)
+      .set({ revokedAt: now })
+      .where(and(inArray(refreshTokensTable.familyId, ids), isNull(refreshTokensTable.revokedAt)));
+  }
+
+  return ids;
+}
+
+export async function revokeSession(sessionId: string, executor: Executor = db): Promise<void> {
+  await revokeSessions(eq(sessionsTable.id, sessionId), executor);
+}
+
+// Scoped to the user, so other people's session ids look the same as unknown ones
+export async function revokeUserSession(userId: number, sessionId: string): Promise<boolean> {
+  const revoked = await db.transaction((tx) =>
+    revokeSessions(and(eq(sessionsTable.id, sessionId), eq(sessionsTable.userId, userId)), tx)
+  );
+
+  return revoked.length > 0;
+}
+
+// Pass the current session to keep it, e.g. "sign out everywhere else" or a password change
+export async function revokeUserSessions(
+  userId: number,
+  exceptSessionId?: string,
+  executor: Pick<typeof db, 'transaction'> = db
+): Promise<number> {
+  const revoked = await executor.transaction((tx) =>
+    revokeSessions(
+      and(
+        eq(sessionsTable.userId, userId),
+        exceptSessionId ? ne(sessionsTable.id, exceptSessionId) : undefined
+      ),
+      tx
+    )
+  );
+
+  return revoked.length;
+}
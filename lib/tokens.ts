@@ -0,0 +1,146 @@
+import { eq } from 'drizzle-orm';
+import { decodeJwt } from 'jose';
+import {
+  generateAccessToken,
+  generateRefreshToken,
+  hashToken,
+  type JWTPayload,
+  setAuthCookies,
+  verifyRefreshToken,
+} from '@/lib/auth';
+import { JWT_CONFIG } from '@/lib/config';
+import { db } from '@/lib/db';
+import { refreshTokensTable, sessionsTable } from '@/lib/schema';
+import { createSession, getSessionMetadata, revokeSession, touchSession } from '@/lib/sessions';
+
+export type RefreshTokenRotation =
+  | { status: 'rotated'; userId: string; sessionId: string; refreshToken: string }
+  | { status: 'reused'; userId: string }
+  | { status: 'concurrent' }
+  | { status: 'invalid' };
+
+interface SignedRefreshToken {
+  refreshToken: string;
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+async function signRefreshToken(userId: string): Promise<SignedRefreshToken> {
+  const tokenId = crypto.randomUUID();
+  const refreshToken = await generateRefreshToken({ userId, tokenId });
+  const { exp } = decodeJwt(refreshToken) as { exp: number };
+
+  return { refreshToken, tokenHash: hashToken(tokenId), expiresAt: new Date(exp * 1000) };
+}
+
+// Starts a new session and refresh token family, every later rotation stays in the same one
+export async function issueAuthTokens(
+  payload: Omit<JWTPayload, 'sessionId' | 'iat' | 'exp'>
+): Promise<string> {
+  const signed = await signRefreshToken(payload.userId);
+  const metadata = await getSessionMetadata();
+
+  const sessionId = await db.transaction(async (tx) => {
+    const id = await createSession(Number(payload.userId), signed.expiresAt, metadata, tx);
+
+    await tx.insert(refreshTokensTable).values({
+      userId: Number(payload.userId),
+      tokenHash: signed.tokenHash,
+      familyId: id,
+      expiresAt: signed.expiresAt,
+    });
+
+    return id;
+  });
+
+  const accessToken = await generateAccessToken({ ...payload, sessionId });
+
+  await setAuthCookies(accessToken, signed.refreshToken);
+
+  return sessionId;
+}
+
+// A token that was already rotated has been copied, so presenting it again revokes the
+// whole session and both the thief and the legitimate user have to sign in again
+export async function rotateRefreshToken(token: string): Promise<RefreshTokenRotation> {
+  const payload = await verifyRefreshToken(token);
+
+  if (!payload) return { status: 'invalid' };
+
+  const metadata = await getSessionMetadata();
+
+  return db.transaction(async (tx): Promise<RefreshTokenRotation> => {
+    const [row] = await tx
+      .select({ stored: refreshTokensTable, sessionRevokedAt: sessionsTable.revokedAt })
+      .from(refreshTokensTable)
+      .innerJoin(sessionsTable, eq(sessionsTable.id, refreshTokensTable.familyId))
+      .where(eq(refreshTokensTable.tokenHash, hashToken(payload.tokenId)))
+      .for('update', { of: refreshTokensTable });
+
+    const stored = row?.stored;
+
+    if (!stored || String(stored.userId) !== payload.userId) return { status: 'invalid' };
+
+    // Signed out or revoked from another device, not a sign of a stolen token
+    if (row.sessionRevokedAt) return { status: 'invalid' };
+
+    const now = new Date();
+
+    // Parallel requests racing through the middleware refresh all present the same token,
+    // only the first one rotates it and the rest must not be mistaken for theft
+    if (
+      stored.revokedAt &&
+      now.getTime() - stored.revokedAt.getTime() < JWT_CONFIG.REFRESH_REUSE_GRACE_SECONDS * 1000
+    ) {
+      return { status: 'concurrent' };
+    }
+
+    if (stored.revokedAt) {
+      await revokeSession(stored.familyId, tx);
+
+      return { status: 'reused', userId: payload.userId };
+    }
+
+    if (stored.expiresAt <= now) return { status: 'invalid' };
+
+    await tx
+      .update(refreshTokensTable)
+      .set({ revokedAt: now })
+      .where(eq(refreshTokensTable.id, stored.id));
+
+    const signed = await signRefreshToken(payload.userId);
+
+    await tx.insert(refreshTokensTable).values({
+      userId: stored.userId,
+      tokenHash: signed.tokenHash,
+      familyId: stored.familyId,
+      expiresAt: signed.expiresAt,
+    });
+
+    await touchSession(stored.familyId, signed.expiresAt, metadata, tx);
+
+    return {
+      status: 'rotated',
+      userId: payload.userId,
+      sessionId: stored.familyId,
+      refreshToken: signed.refreshToken,
+    };
+  });
+}
+
+// Signing out ends the whole session, not just the presented token
+export async function revokeRefreshTokenFamily(token: string): Promise<void> {
+  const payload = await verifyRefreshToken(token);
+
+  if (!payload) return;
+
+  const [stored] = await db
+    .select({ familyId: refreshTokensTable.familyId })
+    .from(refreshTokensTable)
+    .where(eq(refreshTokensTable.tokenHash, hashToken(payload.tokenId)))
+    .limit(1);
+
+  if (!stored) return;
+
+  await revokeSession(stored.familyId);
+}
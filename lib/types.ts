@@ -1,7 +1,32 @@
-export interface User {
-  id: string;
-  email: string;
-  username?: string;
-  createdAt: Date;
-  updatedAt: Date;
+import type { InferSelectModel } from 'drizzle-orm';
+import type { Permission } from '@/lib/permissions';
+import type { usersTable } from '@/lib/schema';
+
+// Derived from the table so the shape can't drift from the database, minus the columns
+// that must never leave the server
+export type User = Omit<
+  InferSelectModel<typeof usersTable>,
+  | 'password'
+  | 'deletedAt'
+  | 'failedLoginAttempts'
+  | 'lockedUntil'
+  | 'totpSecret'
+  | 'totpLastUsedStep'
+>;
+
+export interface UserAuthorization {
+  roles: string[];
+  permissions: Permission[];
 }
+
+// What the auth endpoints return, so the client can render permission-aware UI
+export type AuthUser = User & UserAuthorization;
+
+// What a server value looks like to the client after a round trip through JSON
+export type Serialized<T> = T extends Date
+  ? string
+  : T extends (infer U)[]
+    ? Serialized<U>[]
+    : T extends object
+      ? { [K in keyof T]: Serialized<T[K]> }
+      : T;
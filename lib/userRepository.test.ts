@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { isUniqueViolation } from '@/lib/db';
+import { createMemoryUserRepository, type MemoryUserRepository } from '@/lib/userRepository';
+
+describe('memory user repository', () => {
+  let repository: MemoryUserRepository;
+
+  beforeEach(() => {
+    repository = createMemoryUserRepository();
+  });
+
+  it('stores emails normalized and finds them in any casing', async () => {
+    const user = await repository.insert({ email: '  Ada@Example.com ' });
+
+    expect(user.email).toBe('ada@example.com');
+    expect(await repository.findByEmail('ADA@example.COM')).toEqual(user);
+  });
+
+  it('rejects a taken email like the unique index does', async () => {
+    await repository.insert({ email: 'ada@example.com' });
+
+    const error = await repository.insert({ email: 'ADA@example.com' }).catch((e) => e);
+
+    expect(isUniqueViolation(error)).toBe(true);
+  });
+
+  it('hands out copies, so changing one does not write through', async () => {
+    const user = await repository.insert({ email: 'ada@example.com' });
+
+    user.firstName = 'Changed';
+
+    expect((await repository.findById(user.id))?.firstName).toBeNull();
+  });
+
+  it('skips soft-deleted users unless asked for them', async () => {
+    const user = await repository.insert({ email: 'ada@example.com', deletedAt: new Date() });
+
+    expect(await repository.findById(user.id)).toBeUndefined();
+    expect(await repository.findByEmail(user.email)).toBeUndefined();
+    expect(await repository.findById(user.id, { includeDeleted: true })).toMatchObject({
+      id: user.id,
+    });
+  });
+
+  it('does not update soft-deleted users unless asked to', async () => {
+    const user = await repository.insert({ email: 'ada@example.com', deletedAt: new Date() });
+
+    expect(await repository.update(user.id, { firstName: 'Ada' })).toBeUndefined();
+
+    const restored = await repository.update(
+      user.id,
+      { deletedAt: null },
+      { includeDeleted: true }
+    );
+
+    expect(restored?.deletedAt).toBeNull();
+  });
+
+  it('bumps updatedAt and leaves fields passed as undefined alone', async () => {
+    const user = await repository.insert({ email: 'ada@example.com', firstName: 'Ada' });
+    const before = user.updatedAt;
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const updated = await repository.update(user.id, { firstName: undefined, lastName: 'L' });
+
+    expect(updated?.firstName).toBe('Ada');
+    expect(updated?.lastName).toBe('L');
+    expect(updated?.updatedAt.getTime()).toBeGreaterThan(before.getTime());
+  });
+
+  it('counts failed logins', async () => {
+    const user = await repository.insert({ email: 'ada@example.com' });
+
+    await repository.incrementFailedLogins(user.id);
+
+    expect(await repository.incrementFailedLogins(user.id)).toBe(2);
+    expect(await repository.incrementFailedLogins(user.id + 1)).toBeUndefined();
+  });
+
+  it('claims each TOTP step once, and never an earlier one', async () => {
+    const user = await repository.insert({ email: 'ada@example.com' });
+
+    expect(await repository.claimTotpStep(user.id, 10)).toBe(true);
+    expect(await repository.claimTotpStep(user.id, 10)).toBe(false);
+    expect(await repository.claimTotpStep(user.id, 9)).toBe(false);
+    expect(await repository.claimTotpStep(user.id, 11)).toBe(true);
+  });
+
+  it('finds users by a linked provider account', async () => {
+    const user = await repository.insert({ email: 'ada@example.com' });
+
+    await repository.linkAccount(user.id, {
+      provider: 'google',
+      providerAccountId: '42',
+      email: user.email,
+    });
+
+    expect(await repository.findByAccount('google', '42')).toMatchObject({ id: user.id });
+    expect(await repository.findByAccount('github', '42')).toBeUndefined();
+
+    const error = await repository
+      .linkAccount(user.id, { provider: 'google', providerAccountId: '42', email: null })
+      .catch((e) => e);
+
+    expect(isUniqueViolation(error)).toBe(true);
+  });
+
+  it('rolls back everything done in a failed transaction', async () => {
+    const kept = await repository.insert({ email: 'kept@example.com' });
+
+    await expect(
+      repository.transaction(async (repo) => {
+        const user = await repo.insert({ email: 'ada@example.com' });
+        await repo.assignRole(user.id, 'admin');
+        await repo.update(kept.id, { firstName: 'Changed' });
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(repository.users.map((user) => user.email)).toEqual(['kept@example.com']);
+    expect(repository.roles.size).toBe(0);
+    expect((await repository.findById(kept.id))?.firstName).toBeNull();
+  });
+});
@@ -0,0 +1,343 @@
+import { and, eq, isNull, lt, or, sql } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { ROLES } from '@/lib/permissions';
+import { accountsTable, rolesTable, userRolesTable, usersTable } from '@/lib/schema';
+import type { UserRecord } from '@/lib/users';
+
+export type NewUserRecord = typeof usersTable.$inferInsert;
+
+export type AccountRecord = typeof accountsTable.$inferSelect;
+
+// A sign-in method at an OAuth provider
+export type NewAccountRecord = Pick<AccountRecord, 'provider' | 'providerAccountId' | 'email'>;
+
+export type UserChanges = Partial<Omit<NewUserRecord, 'id' | 'createdAt' | 'updatedAt'>>;
+
+export interface FindUserOptions {
+  // Soft-deleted users are skipped unless asked for, e.g. to restore one
+  includeDeleted?: boolean;
+}
+
+/**
+ * Storage for users, without any rules of its own, those live in lib/userService.ts. The Postgres
+ * implementation backs the app, the memory one runs without a database.
+ */
+export interface UserRepository {
+  findById: (id: number, options?: FindUserOptions) => Promise<UserRecord | undefined>;
+  // Emails are stored normalized, so any casing finds the user
+  findByEmail: (email: string, options?: FindUserOptions) => Promise<UserRecord | undefined>;
+  // Fails with a unique violation (see isUniqueViolation) when the email is taken, soft-deleted
+  // users included
+  insert: (values: NewUserRecord) => Promise<UserRecord>;
+  // Also bumps updatedAt. Undefined when there is no such user. The deleted check is part of the
+  // write, so a soft delete committed in between can't be overwritten.
+  update: (
+    id: number,
+    changes: UserChanges,
+    options?: FindUserOptions
+  ) => Promise<UserRecord | undefined>;
+  // Atomic, so concurrent failures all count. Resolves to the new count, undefined without a user.
+  incrementFailedLogins: (id: number) => Promise<number | undefined>;
+  // Records a TOTP step as used unless the same or a later one already is. False means another
+  // request got there first, so a code can't be replayed.
+  claimTotpStep: (id: number, step: number) => Promise<boolean>;
+  // The user holding the provider account, soft-deleted ones only when asked for
+  findByAccount: (
+    provider: string,
+    providerAccountId: string,
+    options?: FindUserOptions
+  ) => Promise<UserRecord | undefined>;
+  linkAccount: (userId: number, account: NewAccountRecord) => Promise<void>;
+  assignRole: (userId: number, role: string) => Promise<void>;
+  // Everything done through the given repository commits or rolls back together
+  transaction: <T>(fn: (repository: UserRepository) => Promise<T>) => Promise<T>;
+}
+
+export interface MemoryUserRepository extends UserRepository {
+  users: UserRecord[];
+  roles: Map<number, Set<string>>;
+  accounts: (NewAccountRecord & { userId: number })[];
+  clear: () => void;
+}
+
+type UserExecutor = Pick<typeof db, 'select' | 'insert' | 'update' | 'transaction'>;
+
+type RoleExecutor = Pick<typeof db, 'insert' | 'select'>;
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export async function assignRole(
+  userId: number,
+  roleName: string = ROLES.USER,
+  executor: RoleExecutor = db
+): Promise<void> {
+  const [role] = await executor
+    .select({ id: rolesTable.id })
+    .from(rolesTable)
+    .where(eq(rolesTable.name, roleName))
+    .limit(1);
+
+  if (!role) throw new Error(`Role "${roleName}" does not exist`);
+
+  await executor.insert(userRolesTable).values({ userId, roleId: role.id }).onConflictDoNothing();
+}
+
+const notDeleted = (options: FindUserOptions) =>
+  options.includeDeleted ? undefined : isNull(usersTable.deletedAt);
+
+export function createPostgresUserRepository(executor: UserExecutor = db): UserRepository {
+  return {
+    findById: async (id, options = {}) => {
+      const [user] = await executor
+        .select()
+        .from(usersTable)
+        .where(and(eq(usersTable.id, id), notDeleted(options)))
+        .limit(1);
+
+      return user;
+    },
+    findByEmail: async (email, options = {}) => {
+      const [user] = await executor
+        .select()
+        .from(usersTable)
+        .where(and(eq(usersTable.email, normalizeEmail(email)), notDeleted(options)))
+        .limit(1);
+
+      return user;
+    },
+    insert: async (values) => {
+      const [user] = await executor
+        .insert(usersTable)
+        .values({ ...values, email: normalizeEmail(values.email) })
+        .returning();
+
+      return user;
+    },
+    update: async (id, changes, options = {}) => {
+      const [user] = await executor
+        .update(usersTable)
+        .set({
+          ...changes,
+          ...(changes.email ? { email: normalizeEmail(changes.email) } : {}),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(usersTable.id, id), notDeleted(options)))
+        .returning();
+
+      return user;
+    },
+    incrementFailedLogins: async (id) => {
+      const [user] = await executor
+        .update(usersTable)
+        .set({ failedLoginAttempts: sql`${usersTable.failedLoginAttempts} + 1` })
+        .where(eq(usersTable.id, id))
+        .returning({ failedLoginAttempts: usersTable.failedLoginAttempts });
+
+      return user?.failedLoginAttempts;
+    },
+    claimTotpStep: async (id, step) => {
+      const claimed = await executor
+        .update(usersTable)
+        .set({ totpLastUsedStep: step })
+        .where(
+          and(
+            eq(usersTable.id, id),
+            or(isNull(usersTable.totpLastUsedStep), lt(usersTable.totpLastUsedStep, step))
+          )
+        )
+        .returning({ id: usersTable.id });
+
+      return claimed.length > 0;
+    },
+    findByAccount: async (provider, providerAccountId, options = {}) => {
+      const [linked] = await executor
+        .select({ user: usersTable })
+        .from(accountsTable)
+        .innerJoin(usersTable, eq(usersTable.id, accountsTable.userId))
+        .where(
+          and(
+            eq(accountsTable.provider, provider),
+            eq(accountsTable.providerAccountId, providerAccountId),
+            notDeleted(options)
+          )
+        )
+        .limit(1);
+
+      return linked?.user;
+    },
+    linkAccount: async (userId, account) => {
+      await executor.insert(accountsTable).values({ ...account, userId });
+    },
+    assignRole: (userId, role) => assignRole(userId, role, executor),
+    // Nested calls become savepoints
+    transaction: (fn) => executor.transaction((tx) => fn(createPostgresUserRepository(tx))),
+  };
+}
+
+// What Postgres raises for a unique index, so callers handle both the same way
+function uniqueViolation(constraint = 'users_email_unique'): Error {
+  return Object.assign(
+    new Error(`duplicate key value violates unique constraint "${constraint}"`),
+    {
+      code: '23505',
+    }
+  );
+}
+
+// Drizzle skips undefined values, the memory repository has to do the same
+const withoutUndefined = <T extends object>(values: T): Partial<T> =>
+  Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+
+export function createMemoryUserRepository(initial: UserRecord[] = []): MemoryUserRepository {
+  let users = initial.map((user) => ({ ...user }));
+  let roles = new Map<number, Set<string>>();
+  let accounts: MemoryUserRepository['accounts'] = [];
+  let nextId = Math.max(0, ...users.map((user) => user.id)) + 1;
+
+  const isVisible = (user: UserRecord, options: FindUserOptions) =>
+    options.includeDeleted || user.deletedAt === null;
+
+  // Callers get copies, like rows from Postgres, so changing one doesn't write through
+  const copy = (user: UserRecord | undefined) => (user ? { ...user } : undefined);
+
+  const repository: MemoryUserRepository = {
+    get users() {
+      return users;
+    },
+    get roles() {
+      return roles;
+    },
+    get accounts() {
+      return accounts;
+    },
+    clear: () => {
+      users = [];
+      roles = new Map();
+      accounts = [];
+      nextId = 1;
+    },
+    findById: async (id, options = {}) =>
+      copy(users.find((user) => user.id === id && isVisible(user, options))),
+    findByEmail: async (email, options = {}) =>
+      copy(users.find((user) => user.email === normalizeEmail(email) && isVisible(user, options))),
+    insert: async (values) => {
+      const email = normalizeEmail(values.email);
+
+      if (users.some((user) => user.email === email)) throw uniqueViolation();
+
+      const now = new Date();
+      const user: UserRecord = {
+        password: null,
+        firstName: null,
+        lastName: null,
+        bio: null,
+        avatar: null,
+        emailVerifiedAt: null,
+        lastLoginAt: null,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+        createdAt: now,
+        updatedAt: now,
+        deletedAt: null,
+        ...withoutUndefined(values),
+        id: nextId++,
+        email,
+      };
+
+      users.push(user);
+
+      return { ...user };
+    },
+    update: async (id, changes, options = {}) => {
+      const index = users.findIndex((user) => user.id === id && isVisible(user, options));
+
+      if (index === -1) return undefined;
+
+      const email = changes.email === undefined ? undefined : normalizeEmail(changes.email);
+
+      if (email && users.some((user) => user.email === email && user.id !== id)) {
+        throw uniqueViolation();
+      }
+
+      users[index] = {
+        ...users[index],
+        ...withoutUndefined(changes),
+        ...(email ? { email } : {}),
+        updatedAt: new Date(),
+      };
+
+      return { ...users[index] };
+    },
+    incrementFailedLogins: async (id) => {
+      const user = users.find((candidate) => candidate.id === id);
+
+      if (!user) return undefined;
+
+      user.failedLoginAttempts += 1;
+
+      return user.failedLoginAttempts;
+    },
+    claimTotpStep: async (id, step) => {
+      const user = users.find((candidate) => candidate.id === id);
+
+      if (!user || (user.totpLastUsedStep !== null && user.totpLastUsedStep >= step)) return false;
+
+      user.totpLastUsedStep = step;
+
+      return true;
+    },
+    findByAccount: async (provider, providerAccountId, options = {}) => {
+      const account = accounts.find(
+        (candidate) =>
+          candidate.provider === provider && candidate.providerAccountId === providerAccountId
+      );
+
+      return copy(users.find((user) => user.id === account?.userId && isVisible(user, options)));
+    },
+    linkAccount: async (userId, account) => {
+      if (
+        accounts.some(
+          (candidate) =>
+            candidate.provider === account.provider &&
+            candidate.providerAccountId === account.providerAccountId
+        )
+      ) {
+        throw uniqueViolation('accounts_provider_account_idx');
+      }
+
+      accounts.push({ ...account, userId });
+    },
+    assignRole: async (userId, role) => {
+      roles.set(userId, (roles.get(userId) ?? new Set()).add(role));
+    },
+    // Restores a snapshot when fn throws. Unlike Postgres, concurrent transactions aren't isolated
+    // from each other.
+    transaction: async (fn) => {
+      const snapshot = {
+        users: users.map((user) => ({ ...user })),
+        roles: new Map([...roles].map(([userId, names]) => [userId, new Set(names)])),
+        accounts: accounts.map((account) => ({ ...account })),
+        nextId,
+      };
+
+      try {
+        return await fn(repository);
+      } catch (error) {
+        users = snapshot.users;
+        roles = snapshot.roles;
+        accounts = snapshot.accounts;
+        nextId = snapshot.nextId;
+        throw error;
+      }
+    },
+  };
+
+  return repository;
+}
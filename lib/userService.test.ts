@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { ZodError } from 'zod';
+import { createMemoryUserRepository, type MemoryUserRepository } from '@/lib/userRepository';
+import {
+  createUserService,
+  type PasswordHasher,
+  UserError,
+  type UserService,
+} from '@/lib/userService';
+
+// bcrypt would make every create take a noticeable moment
+const plainHasher: PasswordHasher = {
+  hash: async (password) => `hashed:${password}`,
+  verify: async (password, hashedPassword) => hashedPassword === `hashed:${password}`,
+};
+
+const userInput = { email: 'Ada@Example.com', password: 'Secret123!', firstName: 'Ada' };
+
+const errorCode = (promise: Promise<unknown>) =>
+  promise.then(
+    () => undefined,
+    (error) => (error instanceof UserError ? error.code : error)
+  );
+
+describe('user service', () => {
+  let repository: MemoryUserRepository;
+  let service: UserService;
+
+  beforeEach(() => {
+    repository = createMemoryUserRepository();
+    service = createUserService(repository, plainHasher);
+  });
+
+  it('creates users with a hashed password and the user role', async () => {
+    const user = await service.create(userInput);
+
+    expect(user).toMatchObject({ email: 'ada@example.com', password: 'hashed:Secret123!' });
+    expect(repository.roles.get(user.id)).toEqual(new Set(['user']));
+  });
+
+  it('rejects a taken email, in any casing', async () => {
+    await service.create(userInput);
+
+    expect(await errorCode(service.create({ ...userInput, email: 'ADA@example.com' }))).toBe(
+      'email_taken'
+    );
+    expect(repository.users).toHaveLength(1);
+  });
+
+  it('keeps the email of a soft-deleted user taken', async () => {
+    const user = await service.create(userInput);
+
+    await service.softDelete(user.id);
+
+    expect(await service.findById(user.id)).toBeUndefined();
+    expect(await errorCode(service.create(userInput))).toBe('email_taken');
+  });
+
+  it('does not keep a user whose role assignment failed', async () => {
+    repository.assignRole = async () => {
+      throw new Error('Role "user" does not exist');
+    };
+
+    await expect(service.create(userInput)).rejects.toThrow('does not exist');
+    expect(repository.users).toHaveLength(0);
+  });
+
+  it('validates profile updates', async () => {
+    const user = await service.create(userInput);
+
+    await expect(
+      service.updateProfile(user.id, { firstName: 'Ada1', lastName: 'Lovelace' })
+    ).rejects.toBeInstanceOf(ZodError);
+
+    const updated = await service.updateProfile(user.id, {
+      firstName: 'Augusta',
+      lastName: 'Lovelace',
+    });
+
+    expect(updated).toMatchObject({ firstName: 'Augusta', lastName: 'Lovelace' });
+  });
+
+  it('does not update soft-deleted users', async () => {
+    const user = await service.create(userInput);
+
+    await service.softDelete(user.id);
+
+    expect(
+      await errorCode(service.updateProfile(user.id, { firstName: 'Ada', lastName: 'Lovelace' }))
+    ).toBe('not_found');
+    expect(await errorCode(service.softDelete(user.id))).toBe('not_found');
+  });
+
+  it('changes the password only with the current one', async () => {
+    const user = await service.create(userInput);
+
+    expect(await errorCode(service.changePassword(user.id, 'wrong', 'Newer123!'))).toBe(
+      'invalid_password'
+    );
+
+    const updated = await service.changePassword(user.id, 'Secret123!', 'Newer123!');
+
+    expect(updated.password).toBe('hashed:Newer123!');
+  });
+
+  it('restores soft-deleted users', async () => {
+    const user = await service.create(userInput);
+
+    await service.softDelete(user.id);
+
+    expect((await service.restore(user.id)).deletedAt).toBeNull();
+    expect(await service.findByEmail('ada@example.com')).toMatchObject({ id: user.id });
+    expect(await errorCode(service.restore(user.id + 1))).toBe('not_found');
+  });
+
+  it('rolls back every step of a failed transaction', async () => {
+    await expect(
+      service.transaction(async (tx) => {
+        await tx.create(userInput);
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(repository.users).toHaveLength(0);
+  });
+});
@@ -0,0 +1,128 @@
+import { hashPassword, verifyPassword } from '@/lib/auth';
+import { isUniqueViolation } from '@/lib/db';
+import { ROLES } from '@/lib/permissions';
+import {
+  createPostgresUserRepository,
+  type UserChanges,
+  type UserRepository,
+} from '@/lib/userRepository';
+import type { UserRecord } from '@/lib/users';
+import { type ProfileUpdateInput, profileUpdateSchema } from '@/lib/validations';
+
+export type UserErrorCode = 'email_taken' | 'not_found' | 'invalid_password';
+
+// Expected failures the routes turn into 4xx responses
+export class UserError extends Error {
+  readonly code: UserErrorCode;
+
+  constructor(code: UserErrorCode, message: string) {
+    super(message);
+    this.name = 'UserError';
+    this.code = code;
+  }
+}
+
+export interface PasswordHasher {
+  hash: (password: string) => Promise<string>;
+  verify: (password: string, hashedPassword: string | null) => Promise<boolean>;
+}
+
+export interface CreateUserInput {
+  email: string;
+  password: string;
+  firstName?: string;
+  lastName?: string;
+  role?: string;
+}
+
+export interface UserService {
+  findById: (id: number) => Promise<UserRecord | undefined>;
+  findByEmail: (email: string) => Promise<UserRecord | undefined>;
+  create: (input: CreateUserInput) => Promise<UserRecord>;
+  // Throws a ZodError for input that doesn't pass profileUpdateSchema
+  updateProfile: (id: number, input: ProfileUpdateInput) => Promise<UserRecord>;
+  changePassword: (id: number, currentPassword: string, newPassword: string) => Promise<UserRecord>;
+  // Keeps the row, and with it the email, so the address can't be registered again
+  softDelete: (id: number) => Promise<void>;
+  restore: (id: number) => Promise<UserRecord>;
+  transaction: <T>(fn: (service: UserService) => Promise<T>) => Promise<T>;
+}
+
+const bcryptHasher: PasswordHasher = { hash: hashPassword, verify: verifyPassword };
+
+/**
+ * Takes any repository, e.g. the memory one, and a hasher, since bcrypt's cost factor makes every
+ * `create` take a noticeable moment.
+ */
+export function createUserService(
+  repository: UserRepository = createPostgresUserRepository(),
+  passwords: PasswordHasher = bcryptHasher
+): UserService {
+  const requireUser = async (id: number, repo: UserRepository) => {
+    const user = await repo.findById(id);
+
+    if (!user) throw new UserError('not_found', 'User not found');
+
+    return user;
+  };
+
+  // The update itself skips deleted users, so a concurrent soft delete can't slip in between a
+  // check and the write
+  const updateExisting = async (id: number, changes: UserChanges) => {
+    const user = await repository.update(id, changes);
+
+    if (!user) throw new UserError('not_found', 'User not found');
+
+    return user;
+  };
+
+  return {
+    findById: (id) => repository.findById(id),
+    findByEmail: (email) => repository.findByEmail(email),
+    create: async ({ password, role = ROLES.USER, ...profile }) => {
+      const hashedPassword = await passwords.hash(password);
+
+      try {
+        return await repository.transaction(async (repo) => {
+          const user = await repo.insert({ ...profile, password: hashedPassword });
+
+          await repo.assignRole(user.id, role);
+
+          return user;
+        });
+      } catch (error) {
+        // The unique index also covers concurrent sign-ups and soft-deleted accounts
+        if (isUniqueViolation(error)) {
+          throw new UserError('email_taken', 'An account with this email already exists');
+        }
+
+        throw error;
+      }
+    },
+    updateProfile: async (id, input) => updateExisting(id, profileUpdateSchema.parse(input)),
+    changePassword: async (id, currentPassword, newPassword) => {
+      const user = await requireUser(id, repository);
+
+      if (!(await passwords.verify(currentPassword, user.password))) {
+        throw new UserError('invalid_password', 'Current password is incorrect');
+      }
+
+      return updateExisting(id, { password: await passwords.hash(newPassword) });
+    },
+    softDelete: async (id) => {
+      await updateExisting(id, { deletedAt: new Date() });
+    },
+    restore: (id) =>
+      repository.transaction(async (repo) => {
+        const user = await repo.findById(id, { includeDeleted: true });
+
+        if (!user) throw new UserError('not_found', 'User not found');
+        if (!user.deletedAt) return user;
+
+        return (await repo.update(id, { deletedAt: null }, { includeDeleted: true })) as UserRecord;
+      }),
+    transaction: (fn) => repository.transaction((repo) => fn(createUserService(repo, passwords))),
+  };
+}
+
+export const userService = createUserService();
@@ -0,0 +1,178 @@
+import { eq } from 'drizzle-orm';
+import { AUTH_CONFIG } from '@/lib/config';
+import { db } from '@/lib/db';
+import { OAuthError, type OAuthProfile } from '@/lib/oauth';
+import { isPermission, ROLES } from '@/lib/permissions';
+import {
+  passkeysTable,
+  recoveryCodesTable,
+  rolePermissionsTable,
+  rolesTable,
+  userRolesTable,
+  type usersTable,
+} from '@/lib/schema';
+import { revokeUserSessions } from '@/lib/sessions';
+import type { AuthUser, User, UserAuthorization } from '@/lib/types';
+import {
+  createPostgresUserRepository,
+  normalizeEmail,
+  type UserRepository,
+} from '@/lib/userRepository';
+
+export type UserRecord = typeof usersTable.$inferSelect;
+
+const repository = createPostgresUserRepository();
+
+export function toUser(record: UserRecord): User {
+  const {
+    password: _password,
+    deletedAt: _deletedAt,
+    failedLoginAttempts: _failedLoginAttempts,
+    lockedUntil: _lockedUntil,
+    totpSecret: _totpSecret,
+    totpLastUsedStep: _totpLastUsedStep,
+    ...user
+  } = record;
+
+  return user;
+}
+
+export function toAuthUser(record: UserRecord, authorization: UserAuthorization): AuthUser {
+  return { ...toUser(record), ...authorization };
+}
+
+export async function findUserByEmail(email: string): Promise<UserRecord | undefined> {
+  return repository.findByEmail(email);
+}
+
+export async function findUserById(id: string | number): Promise<UserRecord | undefined> {
+  const userId = Number(id);
+
+  if (!Number.isInteger(userId)) return undefined;
+
+  return repository.findById(userId);
+}
+
+export async function getUserAuthorization(userId: number): Promise<UserAuthorization> {
+  const rows = await db
+    .select({ role: rolesTable.name, permission: rolePermissionsTable.permission })
+    .from(userRolesTable)
+    .innerJoin(rolesTable, eq(rolesTable.id, userRolesTable.roleId))
+    .leftJoin(rolePermissionsTable, eq(rolePermissionsTable.roleId, rolesTable.id))
+    .where(eq(userRolesTable.userId, userId));
+
+  const roles = new Set(rows.map((row) => row.role));
+  const permissions = new Set(
+    rows.flatMap((row) => (row.permission && isPermission(row.permission) ? [row.permission] : []))
+  );
+
+  return { roles: [...roles], permissions: [...permissions] };
+}
+
+export function getLockRemainingMs(user: UserRecord, now = new Date()): number {
+  return user.lockedUntil ? Math.max(0, user.lockedUntil.getTime() - now.getTime()) : 0;
+}
+
+// The lock starts at LOCKOUT_BASE_SECONDS once the threshold is hit and doubles with every
+// further failure, capped at LOCKOUT_MAX_SECONDS
+export async function recordFailedLogin(
+  userId: number,
+  users: UserRepository = repository
+): Promise<void> {
+  const failedLoginAttempts = await users.incrementFailedLogins(userId);
+
+  if (failedLoginAttempts === undefined) return;
+
+  const overThreshold = failedLoginAttempts - AUTH_CONFIG.LOCKOUT_THRESHOLD;
+
+  if (overThreshold < 0) return;
+
+  const lockSeconds = Math.min(
+    AUTH_CONFIG.LOCKOUT_BASE_SECONDS * 2 ** overThreshold,
+    AUTH_CONFIG.LOCKOUT_MAX_SECONDS
+  );
+
+  await users.update(userId, { lockedUntil: new Date(Date.now() + lockSeconds * 1000) });
+}
+
+// Called once every factor has been checked, password-only success must not clear the counter
+// while a second factor is still outstanding. The caller has just loaded the user, a soft delete
+// landing in between doesn't undo the sign-in.
+export async function recordSuccessfulLogin(
+  userId: number,
+  users: UserRepository = repository
+): Promise<UserRecord> {
+  const user = await users.update(
+    userId,
+    { lastLoginAt: new Date(), failedLoginAttempts: 0, lockedUntil: null },
+    { includeDeleted: true }
+  );
+
+  return user as UserRecord;
+}
+
+// Links by provider account first, then by verified email, and only then creates a new user
+export async function findOrCreateOAuthUser(
+  provider: string,
+  profile: OAuthProfile
+): Promise<UserRecord> {
+  return db.transaction(async (tx) => {
+    const users = createPostgresUserRepository(tx);
+
+    const linked = await users.findByAccount(provider, profile.providerAccountId, {
+      includeDeleted: true,
+    });
+
+    if (linked) {
+      if (linked.deletedAt) throw new OAuthError('This account has been deleted');
+      return linked;
+    }
+
+    const email = normalizeEmail(profile.email);
+
+    let user = await users.findByEmail(email, { includeDeleted: true });
+
+    if (user) {
+      // Otherwise anyone able to claim the address at the provider could take over the account
+      if (!profile.emailVerified || user.deletedAt) {
+        throw new OAuthError('An account with this email already exists');
+      }
+
+      // Nobody proved owning the address when this account was registered, so it may be someone
+      // else's who signed up first. The provider just proved it: every credential they could
+      // have set up goes, along with their sessions.
+      if (!user.emailVerifiedAt) {
+        user = (await users.update(user.id, {
+          password: null,
+          totpSecret: null,
+          totpEnabledAt: null,
+          totpLastUsedStep: null,
+          emailVerifiedAt: new Date(),
+        })) as UserRecord;
+
+        await tx.delete(passkeysTable).where(eq(passkeysTable.userId, user.id));
+        await tx.delete(recoveryCodesTable).where(eq(recoveryCodesTable.userId, user.id));
+        await revokeUserSessions(user.id, undefined, tx);
+      }
+    } else {
+      user = await users.insert({
+        email,
+        password: null,
+        firstName: profile.firstName?.slice(0, 50),
+        lastName: profile.lastName?.slice(0, 50),
+        avatar: profile.avatar,
+        emailVerifiedAt: profile.emailVerified ? new Date() : null,
+      });
+
+      await users.assignRole(user.id, ROLES.USER);
+    }
+
+    await users.linkAccount(user.id, {
+      provider,
+      providerAccountId: profile.providerAccountId,
+      email,
+    });
+
+    return user;
+  });
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '@/lib/constants';
 
 // User registration schema
 export const registerSchema = z
@@ -119,6 +120,101 @@ export const changePasswordSchema = z
     path: ['confirmNewPassword'],
   });
 
+// Second factor schemas, `code` is a TOTP code or a recovery code
+export const mfaCodeSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required').max(32, 'Invalid code'),
+});
+
+export const mfaVerifySchema = mfaCodeSchema.extend({
+  mfaToken: z.string().min(1, 'MFA token is required'),
+});
+
+// WebAuthn responses as serialized by @simplewebauthn/browser. Only the envelope is checked
+// here, the signatures and client data are verified in lib/passkeys.ts.
+const publicKeyCredentialSchema = z.looseObject({
+  id: z.string().min(1),
+  rawId: z.string().min(1),
+  type: z.literal('public-key'),
+  clientExtensionResults: z.record(z.string(), z.unknown()).default({}),
+});
+
+export const passkeyRegistrationSchema = z.object({
+  name: z.string().trim().max(100, 'Name must be less than 100 characters').optional(),
+  response: publicKeyCredentialSchema.extend({
+    response: z.looseObject({
+      clientDataJSON: z.string().min(1),
+      attestationObject: z.string().min(1),
+      transports: z.array(z.string()).optional(),
+    }),
+  }),
+});
+
+export const passkeyAuthenticationSchema = z.object({
+  response: publicKeyCredentialSchema.extend({
+    response: z.looseObject({
+      clientDataJSON: z.string().min(1),
+      authenticatorData: z.string().min(1),
+      signature: z.string().min(1),
+      userHandle: z.string().optional(),
+    }),
+  }),
+});
+
+// Violation reports in both formats browsers send: the `report-uri` one and the Reporting API
+// batch sent to the `report-to` group
+const legacyCspReportSchema = z.object({
+  'csp-report': z.object({
+    'document-uri': z.string(),
+    'violated-directive': z.string().optional(),
+    'effective-directive': z.string().optional(),
+    'blocked-uri': z.string().optional(),
+    disposition: z.string().optional(),
+    'source-file': z.string().optional(),
+    'line-number': z.number().optional(),
+    'column-number': z.number().optional(),
+    'script-sample': z.string().optional(),
+  }),
+});
+
+const reportingApiCspReportSchema = z
+  .array(
+    z.object({
+      type: z.literal('csp-violation'),
+      body: z.object({
+        documentURL: z.string(),
+        effectiveDirective: z.string(),
+        blockedURL: z.string().optional(),
+        disposition: z.string().optional(),
+        sourceFile: z.string().optional(),
+        lineNumber: z.number().optional(),
+        columnNumber: z.number().optional(),
+        sample: z.string().optional(),
+      }),
+    })
+  )
+  .max(100);
+
+export const cspReportSchema = z.union([legacyCspReportSchema, reportingApiCspReportSchema]);
+
+// Filters of the admin audit log, shared by the listing and the export
+const auditEventFiltersSchema = z.object({
+  actorId: z.coerce.number().int().positive().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  targetType: z.enum(AUDIT_TARGET_TYPES).optional(),
+  targetId: z.string().max(64).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const auditEventQuerySchema = auditEventFiltersSchema.extend({
+  cursor: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export const auditEventExportQuerySchema = auditEventFiltersSchema.extend({
+  format: z.enum(['csv', 'jsonl']).default('jsonl'),
+});
+
 // Export types
 export type RegisterInput = z.infer<typeof registerSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
@@ -127,3 +223,10 @@ export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
 export type VerifyEmailInput = z.infer<typeof verifyEmailSchema>;
 export type ProfileUpdateInput = z.infer<typeof profileUpdateSchema>;
 export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type MfaCodeInput = z.infer<typeof mfaCodeSchema>;
+export type MfaVerifyInput = z.infer<typeof mfaVerifySchema>;
+export type PasskeyRegistrationInput = z.infer<typeof passkeyRegistrationSchema>;
+export type PasskeyAuthenticationInput = z.infer<typeof passkeyAuthenticationSchema>;
+export type CspReportInput = z.infer<typeof cspReportSchema>;
+export type AuditEventQueryInput = z.infer<typeof auditEventQuerySchema>;
+export type AuditEventExportQueryInput = z.infer<typeof auditEventExportQuerySchema>;
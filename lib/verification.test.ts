@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST as resetPassword } from '@/app/api/auth/reset-password/route';
+import { POST as verifyEmail } from '@/app/api/auth/verify-email/route';
+import { hashPassword, verifyPassword } from '@/lib/auth';
+import type { RouteHandler } from '@/lib/handler';
+import { type MemoryMailer, mailer } from '@/lib/mailer';
+import { createPostgresUserRepository } from '@/lib/userRepository';
+import { sendPasswordResetEmail, sendVerificationEmail } from '@/lib/verification';
+
+// Runs the migrations on an in-process Postgres, so tokens are consumed by the real statements
+vi.mock('@/lib/db', async () => {
+  const { readdir, readFile } = await import('node:fs/promises');
+  const { PGlite } = await import('@electric-sql/pglite');
+  const { drizzle } = await import('drizzle-orm/pglite');
+
+  const client = new PGlite();
+
+  for (const name of (await readdir('drizzle')).filter((file) => file.endsWith('.sql')).sort()) {
+    await client.exec(await readFile(`drizzle/${name}`, 'utf8'));
+  }
+
+  const database = drizzle(client);
+
+  return {
+    ...(await vi.importActual<typeof import('@/lib/db')>('@/lib/db')),
+    db: Object.assign(database, { read: database, write: database }),
+  };
+});
+
+// Route handlers read the session and request metadata from here, outside a request there is none
+vi.mock('next/headers', () => ({
+  headers: async () => new Headers(),
+  cookies: async () => ({ get: () => undefined }),
+}));
+
+const outbox = (mailer as MemoryMailer).outbox;
+const users = createPostgresUserRepository();
+
+let email = 0;
+
+async function createUser() {
+  email += 1;
+
+  return users.insert({
+    email: `user${email}@example.com`,
+    password: await hashPassword('OldPassword1!'),
+  });
+}
+
+// The token is only ever handed out as part of the link in the email
+function tokenFromEmail(to: string): string {
+  const message = outbox.findLast((candidate) => candidate.to === to);
+  const link = message?.text.match(/https?:\/\/\S+/)?.[0];
+
+  return new URL(link ?? '').searchParams.get('token') ?? '';
+}
+
+const post = (handler: RouteHandler, body: unknown) =>
+  handler(
+    new Request(`http://localhost${handler.definition.route}`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+  );
+
+describe('password reset email', () => {
+  beforeEach(() => (mailer as MemoryMailer).clear());
+
+  it('sends a link whose token sets a new password once', async () => {
+    const user = await createUser();
+
+    await sendPasswordResetEmail(user);
+
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0]).toMatchObject({ to: user.email, subject: expect.stringMatching(/reset/i) });
+
+    const token = tokenFromEmail(user.email);
+    const body = { token, password: 'NewPassword1!', confirmPassword: 'NewPassword1!' };
+
+    expect((await post(resetPassword, body)).status).toBe(200);
+    expect(await verifyPassword('NewPassword1!', (await users.findById(user.id))?.password)).toBe(
+      true
+    );
+
+    expect((await post(resetPassword, body)).status).toBe(400);
+  });
+
+  it('only accepts the latest link', async () => {
+    const user = await createUser();
+
+    await sendPasswordResetEmail(user);
+    const first = tokenFromEmail(user.email);
+    await sendPasswordResetEmail(user);
+
+    const body = { token: first, password: 'NewPassword1!', confirmPassword: 'NewPassword1!' };
+
+    expect((await post(resetPassword, body)).status).toBe(400);
+  });
+
+  it('rejects the link of a deleted account and leaves the token unused', async () => {
+    const user = await createUser();
+
+    await sendPasswordResetEmail(user);
+    await users.update(user.id, { deletedAt: new Date() });
+
+    const body = {
+      token: tokenFromEmail(user.email),
+      password: 'NewPassword1!',
+      confirmPassword: 'NewPassword1!',
+    };
+
+    expect((await post(resetPassword, body)).status).toBe(400);
+
+    // Rolled back with the transaction, so the restored account can still use it
+    await users.update(user.id, { deletedAt: null }, { includeDeleted: true });
+
+    expect((await post(resetPassword, body)).status).toBe(200);
+  });
+});
+
+describe('verification email', () => {
+  beforeEach(() => (mailer as MemoryMailer).clear());
+
+  it('sends a link whose token verifies the address once', async () => {
+    const user = await createUser();
+
+    await sendVerificationEmail(user);
+
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0]).toMatchObject({ to: user.email, subject: expect.stringMatching(/verify/i) });
+
+    const body = { token: tokenFromEmail(user.email) };
+
+    expect((await post(verifyEmail, body)).status).toBe(200);
+    expect((await users.findById(user.id))?.emailVerifiedAt).toBeInstanceOf(Date);
+
+    expect((await post(verifyEmail, body)).status).toBe(400);
+  });
+});
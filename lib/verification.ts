@@ -0,0 +1,102 @@
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { generateResetToken, generateVerificationToken, hashToken } from '@/lib/auth';
+import { APP_CONFIG, AUTH_CONFIG } from '@/lib/config';
+import { db } from '@/lib/db';
+import { mailer } from '@/lib/mailer';
+import { verificationTokensTable } from '@/lib/schema';
+import type { UserRecord } from '@/lib/users';
+
+export type VerificationTokenType = (typeof verificationTokensTable.$inferSelect)['type'];
+
+type Executor = Pick<typeof db, 'update'>;
+
+const TOKEN_SETTINGS: Record<
+  VerificationTokenType,
+  { generate: () => string; expiresInMinutes: number }
+> = {
+  email_verification: {
+    generate: generateVerificationToken,
+    expiresInMinutes: AUTH_CONFIG.EMAIL_VERIFICATION_EXPIRES_IN_MINUTES,
+  },
+  password_reset: {
+    generate: generateResetToken,
+    expiresInMinutes: AUTH_CONFIG.PASSWORD_RESET_EXPIRES_IN_MINUTES,
+  },
+};
+
+// Issuing a new token retires any outstanding one of the same type, so only the latest email works
+export async function createVerificationToken(
+  userId: number,
+  type: VerificationTokenType
+): Promise<string> {
+  const { generate, expiresInMinutes } = TOKEN_SETTINGS[type];
+  const token = generate();
+
+  await db.transaction(async (tx) => {
+    await tx
+      .update(verificationTokensTable)
+      .set({ consumedAt: new Date() })
+      .where(
+        and(
+          eq(verificationTokensTable.userId, userId),
+          eq(verificationTokensTable.type, type),
+          isNull(verificationTokensTable.consumedAt)
+        )
+      );
+
+    await tx.insert(verificationTokensTable).values({
+      userId,
+      type,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + expiresInMinutes * 60 * 1000),
+    });
+  });
+
+  return token;
+}
+
+// Marks the token used in the same statement that checks it, so it can only be redeemed once
+export async function consumeVerificationToken(
+  token: string,
+  type: VerificationTokenType,
+  executor: Executor = db
+): Promise<number | null> {
+  const [consumed] = await executor
+    .update(verificationTokensTable)
+    .set({ consumedAt: new Date() })
+    .where(
+      and(
+        eq(verificationTokensTable.tokenHash, hashToken(token)),
+        eq(verificationTokensTable.type, type),
+        isNull(verificationTokensTable.consumedAt),
+        gt(verificationTokensTable.expiresAt, new Date())
+      )
+    )
+    .returning({ userId: verificationTokensTable.userId });
+
+  return consumed?.userId ?? null;
+}
+
+export async function sendVerificationEmail(user: UserRecord): Promise<void> {
+  const token = await createVerificationToken(user.id, 'email_verification');
+  const url = new URL('/verify-email', APP_CONFIG.URL);
+  url.searchParams.set('token', token);
+
+  await mailer.send({
+    to: user.email,
+    subject: `Verify your email for ${APP_CONFIG.NAME}`,
+    text: `Confirm your email address by opening the link below:\n\n${url}\n\nThe link expires in ${AUTH_CONFIG.EMAIL_VERIFICATION_EXPIRES_IN_MINUTES / 60} hours.`,
+  });
+}
+
+export async function sendPasswordResetEmail(user: UserRecord): Promise<void> {
+  const token = await createVerificationToken(user.id, 'password_reset');
+  const url = new URL('/reset-password', APP_CONFIG.URL);
+  url.searchParams.set('token', token);
+
+  await mailer.send({
+    to: user.email,
+    subject: `Reset your ${APP_CONFIG.NAME} password`,
+    text: `Someone requested a password reset for your account. Choose a new password here:\n\n${url}\n\nThe link expires in ${AUTH_CONFIG.PASSWORD_RESET_EXPIRES_IN_MINUTES} minutes. If this wasn't you, you can ignore this email.`,
+  });
+}
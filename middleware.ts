@@ -1,40 +1,258 @@
 import type { NextRequest } from 'next/server';
 import { NextResponse } from 'next/server';
+import { problemResponse } from '@/lib/api';
+import type { JWTPayload } from '@/lib/auth';
+import { APP_CONFIG, CSP_CONFIG } from '@/lib/config';
+import { AUTH_HEADERS, CSRF_CONFIG } from '@/lib/constants';
+import { getCorsHeaders, getPreflightHeaders, getRequestOrigin, isAllowedOrigin } from '@/lib/cors';
+import { buildCsp, CSP_POLICY, CSP_REPORT_GROUP, generateNonce } from '@/lib/csp';
+import {
+  CSRF_COOKIE_OPTIONS,
+  generateCsrfToken,
+  isValidCsrfToken,
+  verifyCsrfRequest,
+} from '@/lib/csrf';
+import { getAccessKeyring, verifyJwt } from '@/lib/keyring';
+import { AuthorizationError, requirePermission } from '@/lib/permissions';
+import {
+  AUTH_ROUTES,
+  CSRF_EXEMPT_ROUTES,
+  getRequiredPermission,
+  matchesRoute,
+  PROTECTED_ROUTES,
+  ROUTES,
+} from '@/lib/routes';
 
-const protectedRoutes: string[] = [];
+interface ResolvedSession {
+  claims: JWTPayload | null;
+  setCookies: string[];
+  // A parallel request, e.g. a prefetch, rotated the refresh token first and is setting the new
+  // cookies. This one isn't signed in, but the session isn't gone either.
+  refreshRaced?: boolean;
+}
+
+// Never derived from the request, its Host header is whatever the client sent
+const REFRESH_URL = new URL('/api/auth/refresh', APP_CONFIG.INTERNAL_URL);
+
+function getCookieValue(setCookie: string, name: string): string | undefined {
+  const [pair] = setCookie.split(';');
+  const separator = pair.indexOf('=');
+
+  return pair.slice(0, separator).trim() === name ? pair.slice(separator + 1) : undefined;
+}
+
+// Tokens issued before sessions were tracked carry no session id, which the session routes need,
+// so they count as expired and get refreshed into one that does
+async function verifyAccessTokenCookie(request: NextRequest): Promise<JWTPayload | null> {
+  const accessToken = request.cookies.get('access_token')?.value;
+  const claims = accessToken ? await verifyJwt<JWTPayload>(accessToken, getAccessKeyring()) : null;
+
+  return claims?.sessionId ? claims : null;
+}
+
+// The refresh token has to be rotated against the database, which the Edge runtime can't
+// reach, so the refresh route does the work and its cookies are relayed from here
+async function refreshSession(request: NextRequest): Promise<ResolvedSession> {
+  try {
+    const response = await fetch(REFRESH_URL, {
+      method: 'POST',
+      // Client IP and user agent go along so the rate limit and session record see the real caller
+      headers: {
+        cookie: request.headers.get('cookie') ?? '',
+        // The refresh route is a mutation like any other and passes through the CSRF check
+        origin: REFRESH_URL.origin,
+        [CSRF_CONFIG.HEADER_NAME]: request.cookies.get(CSRF_CONFIG.COOKIE_NAME)?.value ?? '',
+        'x-forwarded-for': request.headers.get('x-forwarded-for') ?? '',
+        'x-real-ip': request.headers.get('x-real-ip') ?? '',
+        'user-agent': request.headers.get('user-agent') ?? '',
+      },
+    });
+
+    const setCookies = response.headers.getSetCookie();
+
+    if (response.status === 409) return { claims: null, setCookies, refreshRaced: true };
 
-const authRoutes: string[] = [];
+    if (!response.ok) return { claims: null, setCookies };
 
-export function middleware(request: NextRequest) {
+    for (const setCookie of setCookies) {
+      for (const name of ['access_token', 'refresh_token']) {
+        const value = getCookieValue(setCookie, name);
+        if (value !== undefined) request.cookies.set(name, decodeURIComponent(value));
+      }
+    }
+
+    const claims = await verifyAccessTokenCookie(request);
+
+    return { claims, setCookies };
+  } catch {
+    return { claims: null, setCookies: [] };
+  }
+}
+
+async function resolveSession(request: NextRequest): Promise<ResolvedSession> {
+  const claims = await verifyAccessTokenCookie(request);
+
+  if (claims) return { claims, setCookies: [] };
+
+  const canRefresh =
+    request.cookies.has('refresh_token') && !request.nextUrl.pathname.startsWith('/api/auth/');
+
+  return canRefresh ? refreshSession(request) : { claims: null, setCookies: [] };
+}
+
+function withCookies(response: NextResponse, setCookies: string[]): NextResponse {
+  for (const setCookie of setCookies) {
+    response.headers.append('set-cookie', setCookie);
+  }
+
+  return response;
+}
+
+// Cross-origin requests from an approved client, same-origin requests need no CORS headers
+function getCorsOrigin(request: NextRequest): string | null {
+  const origin = request.headers.get('origin');
+  const ownOrigin = request.nextUrl.origin;
+
+  return origin && origin !== ownOrigin && isAllowedOrigin(origin, ownOrigin) ? origin : null;
+}
+
+async function checkCsrf(request: NextRequest): Promise<string | null> {
+  const origin = getRequestOrigin(request);
+
+  if (origin && !isAllowedOrigin(origin, request.nextUrl.origin)) {
+    return 'Cross-origin request blocked';
+  }
+
+  return (await verifyCsrfRequest(request)) ? null : 'Missing or invalid CSRF token';
+}
+
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
-  const isProtectedRoute = protectedRoutes.some((route) => pathname.startsWith(route));
+  const isApiRoute = pathname.startsWith('/api/');
 
-  const isAuthRoute = authRoutes.some((route) => pathname.startsWith(route));
+  const corsOrigin = isApiRoute ? getCorsOrigin(request) : null;
 
-  const accessToken = request.cookies.get('access_token')?.value;
+  if (isApiRoute && request.method === 'OPTIONS') {
+    if (!corsOrigin) return problemResponse(403, 'Origin not allowed', { instance: pathname });
+
+    return new NextResponse(null, { status: 204, headers: getPreflightHeaders(corsOrigin) });
+  }
+
+  const needsCsrfCheck =
+    isApiRoute &&
+    !CSRF_CONFIG.SAFE_METHODS.some((method) => method === request.method) &&
+    !matchesRoute(pathname, CSRF_EXEMPT_ROUTES);
+
+  const csrfError = needsCsrfCheck ? await checkCsrf(request) : null;
+
+  // Issued on the first request without a valid token, and passed on to the route handler
+  const csrfToken = (await isValidCsrfToken(request.cookies.get(CSRF_CONFIG.COOKIE_NAME)?.value))
+    ? null
+    : await generateCsrfToken();
+
+  if (csrfToken) request.cookies.set(CSRF_CONFIG.COOKIE_NAME, csrfToken);
+
+  // A fresh nonce per page, so an injected script can't reuse one it has seen
+  const nonce = isApiRoute ? null : generateNonce();
+  const csp = nonce ? buildCsp(CSP_POLICY, { nonce, reportUri: CSP_CONFIG.REPORT_URI }) : null;
+  const cspHeader = CSP_CONFIG.REPORT_ONLY
+    ? 'Content-Security-Policy-Report-Only'
+    : 'Content-Security-Policy';
+
+  const finish = (response: NextResponse, setCookies: string[] = []) => {
+    withCookies(response, setCookies);
+
+    if (csrfToken) response.cookies.set(CSRF_CONFIG.COOKIE_NAME, csrfToken, CSRF_COOKIE_OPTIONS);
+
+    if (corsOrigin) {
+      for (const [name, value] of Object.entries(getCorsHeaders(corsOrigin))) {
+        response.headers.set(name, value);
+      }
+    }
+
+    if (csp) {
+      response.headers.set(cspHeader, csp);
+      response.headers.set('Reporting-Endpoints', `${CSP_REPORT_GROUP}="${CSP_CONFIG.REPORT_URI}"`);
+    }
 
-  if (isProtectedRoute && !accessToken) {
-    const loginUrl = new URL('/login', request.url);
+    if (isApiRoute) {
+      response.headers.set('X-Content-Type-Options', 'nosniff');
+      response.headers.set('X-Frame-Options', 'DENY');
+      response.headers.set('X-XSS-Protection', '1; mode=block');
+    }
+
+    return response;
+  };
+
+  if (csrfError) return finish(problemResponse(403, csrfError, { instance: pathname }));
+
+  const isProtectedRoute = matchesRoute(pathname, PROTECTED_ROUTES);
+
+  const isAuthRoute = matchesRoute(pathname, AUTH_ROUTES);
+
+  const requiredPermission = getRequiredPermission(pathname);
+
+  const { claims, setCookies, refreshRaced } = await resolveSession(request);
+
+  // Route handlers check auth themselves and pages fetch their data from them, so passing the
+  // request on without a session lets the client retry once the new cookies have arrived
+  if (requiredPermission && !refreshRaced) {
+    try {
+      requirePermission(requiredPermission, claims);
+    } catch (error) {
+      const status = error instanceof AuthorizationError ? error.status : 403;
+
+      if (isApiRoute) {
+        return finish(
+          problemResponse(status, status === 401 ? 'Unauthorized' : 'Forbidden', {
+            instance: pathname,
+          }),
+          setCookies
+        );
+      }
+
+      if (status === 403) {
+        return finish(NextResponse.redirect(new URL(ROUTES.HOME, request.url)), setCookies);
+      }
+    }
+  }
+
+  if ((isProtectedRoute || requiredPermission) && !claims && !refreshRaced) {
+    const loginUrl = new URL(ROUTES.LOGIN, request.url);
     loginUrl.searchParams.set('redirect', pathname);
-    return NextResponse.redirect(loginUrl);
+    return finish(NextResponse.redirect(loginUrl), setCookies);
   }
 
-  if (isAuthRoute && accessToken) {
-    return NextResponse.redirect(new URL('/dashboard', request.url));
+  if (isAuthRoute && claims) {
+    return finish(NextResponse.redirect(new URL(ROUTES.DASHBOARD, request.url)), setCookies);
   }
 
-  if (pathname.startsWith('/api/')) {
-    const response = NextResponse.next();
+  // Built after a refresh so downstream handlers see the rotated cookies
+  const requestHeaders = new Headers(request.headers);
 
-    response.headers.set('X-Content-Type-Options', 'nosniff');
-    response.headers.set('X-Frame-Options', 'DENY');
-    response.headers.set('X-XSS-Protection', '1; mode=block');
+  requestHeaders.delete(AUTH_HEADERS.USER_ID);
+  requestHeaders.delete(AUTH_HEADERS.USER_EMAIL);
+  requestHeaders.delete(AUTH_HEADERS.USER_ROLES);
+  requestHeaders.delete(AUTH_HEADERS.USER_PERMISSIONS);
+  requestHeaders.delete(AUTH_HEADERS.SESSION_ID);
+  requestHeaders.delete(CSP_CONFIG.NONCE_HEADER);
 
-    return response;
+  if (nonce && csp) {
+    requestHeaders.set(CSP_CONFIG.NONCE_HEADER, nonce);
+    // Next.js reads the nonce for its own inline scripts from the policy on the request
+    requestHeaders.set(cspHeader, csp);
+  }
+
+  if (claims) {
+    requestHeaders.set(AUTH_HEADERS.USER_ID, claims.userId);
+    requestHeaders.set(AUTH_HEADERS.USER_EMAIL, claims.email);
+    requestHeaders.set(AUTH_HEADERS.USER_ROLES, claims.roles.join(','));
+    requestHeaders.set(AUTH_HEADERS.USER_PERMISSIONS, claims.permissions.join(','));
+    requestHeaders.set(AUTH_HEADERS.SESSION_ID, claims.sessionId);
   }
 
-  return NextResponse.next();
+  return finish(NextResponse.next({ request: { headers: requestHeaders } }), setCookies);
 }
 
 export const config = {
@@ -0,0 +1,167 @@
+// Regenerates the route registry behind /api/openapi.json and the typed fetch client from the
+// createHandler routes in app/api. Run it after adding, removing or renaming a route:
+//
+//   npm run api:generate            write lib/generated/*
+//   npm run api:generate -- --check fail when the files are out of date (pre-commit hook)
+//
+// Only the route list and names are generated. Input and output types are read off the
+// handlers by TypeScript, so schema changes don't need a regeneration.
+
+import { spawnSync } from 'node:child_process';
+import { readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, relative } from 'node:path';
+
+const ROOT = new URL('..', import.meta.url).pathname;
+const API_DIR = join(ROOT, 'app/api');
+const HEADER =
+  '// Generated by scripts/generate-api.mjs from the route handlers in app/api, do not edit.\n' +
+  '// Run `npm run api:generate` after changing the routes.\n';
+
+const HANDLER_EXPORT =
+  /export const (GET|POST|PUT|PATCH|DELETE) = createHandler\(\s*\{([\s\S]*?)\n {2}\},\n/g;
+
+function findRouteFiles(dir) {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) return findRouteFiles(path);
+    return entry.name === 'route.ts' ? [path] : [];
+  });
+}
+
+// app/api/auth/passkeys/[id]/route.ts -> /api/auth/passkeys/{id} and authPasskeysId
+function describeFile(file) {
+  const segments = relative(API_DIR, file).split('/').slice(0, -1);
+
+  return {
+    importPath: `@/${relative(ROOT, file).replace(/\.ts$/, '')}`,
+    path: `/api/${segments.map((segment) => segment.replace(/^\[(.+)\]$/, '{$1}')).join('/')}`,
+    alias: segments
+      .join('-')
+      .replace(/[[\]]/g, '')
+      .replace(/[-.]+(\w)/g, (_, letter) => letter.toUpperCase()),
+  };
+}
+
+function collectOperations() {
+  const operations = [];
+
+  for (const file of findRouteFiles(API_DIR)) {
+    const source = readFileSync(file, 'utf8');
+
+    for (const [, method, options] of source.matchAll(HANDLER_EXPORT)) {
+      const operationId = options.match(/operationId: '([^']+)'/)?.[1];
+      const route = options.match(/route: '([^']+)'/)?.[1];
+      const summary = options.match(/summary:\s*'([^']+)'/)?.[1];
+      const described = describeFile(file);
+
+      if (!operationId) throw new Error(`${method} in ${file} has no operationId`);
+      if (route !== described.path) {
+        throw new Error(`${method} in ${file} declares route ${route}, expected ${described.path}`);
+      }
+
+      operations.push({ ...described, method, operationId, summary });
+    }
+  }
+
+  const seen = new Set();
+  for (const { operationId } of operations) {
+    if (seen.has(operationId)) throw new Error(`Duplicate operationId ${operationId}`);
+    seen.add(operationId);
+  }
+
+  return operations.sort(
+    (a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method)
+  );
+}
+
+function uniqueModules(operations) {
+  return [...new Map(operations.map((operation) => [operation.alias, operation])).values()];
+}
+
+function renderRoutes(operations) {
+  const imports = uniqueModules(operations)
+    .map(({ alias, importPath }) => `import * as ${alias} from '${importPath}';`)
+    .join('\n');
+  const entries = operations
+    .map(({ alias, method }) => `  { method: '${method}', handler: ${alias}.${method} },`)
+    .join('\n');
+
+  return `${HEADER}
+${imports}
+import type { ApiRoute } from '@/lib/openapi';
+
+export const apiRoutes: ApiRoute[] = [
+${entries}
+];
+`;
+}
+
+function renderClient(operations) {
+  // Type-only imports, so no server code reaches the browser bundle
+  const imports = uniqueModules(operations)
+    .map(({ alias, importPath }) => `import type * as ${alias} from '${importPath}';`)
+    .join('\n');
+  const methods = operations
+    .map(
+      ({ alias, method, operationId, path, summary }) =>
+        `${summary ? `  /** ${summary} */\n` : ''}  ${operationId}: createOperation<typeof ${alias}.${method}>('${method}', '${path}'),`
+    )
+    .join('\n');
+
+  return `${HEADER}
+${imports}
+import { createOperation } from '@/lib/apiClient';
+
+export const api = {
+${methods}
+};
+`;
+}
+
+function format(source, file) {
+  const result = spawnSync(
+    join(ROOT, 'node_modules/.bin/biome'),
+    ['check', '--write', `--stdin-file-path=${file}`],
+    { cwd: ROOT, input: source, encoding: 'utf8' }
+  );
+
+  if (result.status !== 0) throw new Error(`Could not format ${file}:\n${result.stderr}`);
+
+  return result.stdout;
+}
+
+function main(check) {
+  const operations = collectOperations();
+  const outputs = {
+    'lib/generated/apiRoutes.ts': renderRoutes(operations),
+    'lib/generated/apiClient.ts': renderClient(operations),
+  };
+
+  let stale = false;
+
+  for (const [file, source] of Object.entries(outputs)) {
+    const formatted = format(source, file);
+    const path = join(ROOT, file);
+    let current = '';
+
+    try {
+      current = readFileSync(path, 'utf8');
+    } catch {}
+
+    if (current === formatted) continue;
+
+    if (check) {
+      console.error(`${file} is out of date, run npm run api:generate`);
+      stale = true;
+    } else {
+      writeFileSync(path, formatted);
+      console.log(`Wrote ${file}`);
+    }
+  }
+
+  if (stale) process.exit(1);
+
+  console.log(`${operations.length} operations`);
+}
+
+main(process.argv.includes('--check'));
@@ -0,0 +1,16 @@
+// Applies the pending migrations in drizzle/ with the same runner the server uses on start:
+//
+//   npm run db:migrate
+//
+// Reads the database settings and the app's secrets from .env, like the server.
+
+import { pool } from '@/lib/db';
+import { runMigrations } from '@/lib/migrations';
+
+try {
+  const applied = await runMigrations();
+
+  console.info(applied.length > 0 ? `Applied ${applied.length}` : 'Nothing to apply');
+} finally {
+  await pool.end();
+}
@@ -0,0 +1,27 @@
+// Local OpenID Connect provider for development, enabled with OIDC_MOCK_ISSUER.
+//
+//   npm run oidc:mock
+//
+// Then open /api/auth/oauth/mock in the app. Every sign-in succeeds as the same verified user,
+// override it with MOCK_OIDC_EMAIL. A manual tool: neither `npm test` nor CI starts it.
+import { OAuth2Server } from 'oauth2-mock-server';
+
+const port = Number(process.env.MOCK_OIDC_PORT || 9400);
+const email = process.env.MOCK_OIDC_EMAIL || 'jane.doe@example.com';
+
+const server = new OAuth2Server();
+
+await server.issuer.keys.generate('RS256');
+
+server.service.on('beforeTokenSigning', (token) => {
+  Object.assign(token.payload, {
+    email,
+    email_verified: true,
+    given_name: 'Jane',
+    family_name: 'Doe',
+  });
+});
+
+await server.start(port, 'localhost');
+
+console.log(`Mock OIDC issuer running at ${server.issuer.url}`);
@@ -0,0 +1,213 @@
+// Software WebAuthn authenticator for exercising the passkey endpoints without hardware.
+//
+//   npm run passkey:smoke -- user@example.com 'Password1!'
+//
+// Signs in with the password, registers a passkey, then signs in again using only the passkey.
+// Needs the app running at APP_URL and an existing user. A manual tool: neither `npm test` nor
+// CI runs it.
+// The authenticator can also be imported on its own and driven with the JSON options returned
+// by /api/auth/passkeys/*/options.
+
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'node:crypto';
+
+const b64url = (buffer) => Buffer.from(buffer).toString('base64url');
+const sha256 = (data) => createHash('sha256').update(data).digest();
+
+// Just enough CBOR for attestation objects and COSE keys: integers, strings, bytes and maps
+function cbor(value) {
+  const head = (major, length) => {
+    if (length < 24) return Buffer.from([(major << 5) | length]);
+    if (length < 256) return Buffer.from([(major << 5) | 24, length]);
+    const buffer = Buffer.alloc(3);
+    buffer[0] = (major << 5) | 25;
+    buffer.writeUInt16BE(length, 1);
+    return buffer;
+  };
+
+  if (typeof value === 'number') return value >= 0 ? head(0, value) : head(1, -1 - value);
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([head(3, bytes.length), bytes]);
+  }
+  if (Buffer.isBuffer(value)) return Buffer.concat([head(2, value.length), value]);
+
+  const entries = value instanceof Map ? [...value] : Object.entries(value);
+  return Buffer.concat([
+    head(5, entries.length),
+    ...entries.flatMap(([key, entry]) => [cbor(key), cbor(entry)]),
+  ]);
+}
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+
+export function createSoftAuthenticator({ origin, userVerified = true }) {
+  const credentials = [];
+
+  const authenticatorData = (rpId, flags, counter, attested = Buffer.alloc(0)) => {
+    const counterBytes = Buffer.alloc(4);
+    counterBytes.writeUInt32BE(counter);
+    return Buffer.concat([sha256(rpId), Buffer.from([flags]), counterBytes, attested]);
+  };
+
+  const clientData = (type, challenge) =>
+    Buffer.from(JSON.stringify({ type, challenge, origin, crossOrigin: false }));
+
+  const baseFlags = FLAG_USER_PRESENT | (userVerified ? FLAG_USER_VERIFIED : 0);
+
+  return {
+    credentials,
+
+    create(options) {
+      const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      const jwk = publicKey.export({ format: 'jwk' });
+      const credentialId = randomBytes(32);
+      const rpId = options.rp.id;
+
+      // COSE_Key for ES256: kty EC2, alg -7, crv P-256
+      const coseKey = cbor(
+        new Map([
+          [1, 2],
+          [3, -7],
+          [-1, 1],
+          [-2, Buffer.from(jwk.x, 'base64url')],
+          [-3, Buffer.from(jwk.y, 'base64url')],
+        ])
+      );
+
+      const idLength = Buffer.alloc(2);
+      idLength.writeUInt16BE(credentialId.length);
+      const attested = Buffer.concat([Buffer.alloc(16), idLength, credentialId, coseKey]);
+
+      credentials.push({
+        id: b64url(credentialId),
+        rpId,
+        privateKey,
+        userHandle: options.user.id,
+        counter: 0,
+      });
+
+      return {
+        id: b64url(credentialId),
+        rawId: b64url(credentialId),
+        type: 'public-key',
+        authenticatorAttachment: 'platform',
+        clientExtensionResults: {},
+        response: {
+          clientDataJSON: b64url(clientData('webauthn.create', options.challenge)),
+          attestationObject: b64url(
+            cbor({
+              fmt: 'none',
+              attStmt: {},
+              authData: authenticatorData(rpId, baseFlags | FLAG_ATTESTED_CREDENTIAL, 0, attested),
+            })
+          ),
+          transports: ['internal'],
+        },
+      };
+    },
+
+    get(options) {
+      const allowed = (options.allowCredentials ?? []).map((credential) => credential.id);
+      const credential = credentials.find(
+        (candidate) =>
+          candidate.rpId === options.rpId &&
+          (allowed.length === 0 || allowed.includes(candidate.id))
+      );
+
+      if (!credential) throw new Error(`No credential for ${options.rpId}`);
+
+      credential.counter += 1;
+
+      const data = authenticatorData(options.rpId, baseFlags, credential.counter);
+      const clientDataJSON = clientData('webauthn.get', options.challenge);
+
+      return {
+        id: credential.id,
+        rawId: credential.id,
+        type: 'public-key',
+        authenticatorAttachment: 'platform',
+        clientExtensionResults: {},
+        response: {
+          clientDataJSON: b64url(clientDataJSON),
+          authenticatorData: b64url(data),
+          signature: b64url(
+            sign('sha256', Buffer.concat([data, sha256(clientDataJSON)]), credential.privateKey)
+          ),
+          userHandle: credential.userHandle,
+        },
+      };
+    },
+  };
+}
+
+async function smokeTest([email, password]) {
+  if (!email || !password) {
+    console.error('Usage: npm run passkey:smoke -- <email> <password>');
+    process.exit(1);
+  }
+
+  const baseUrl = process.env.APP_URL || 'http://localhost:3000';
+  const authenticator = createSoftAuthenticator({ origin: new URL(baseUrl).origin });
+  const cookies = new Map();
+
+  const send = async (path, method, body) => {
+    const response = await fetch(new URL(path, baseUrl), {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        origin: new URL(baseUrl).origin,
+        'x-csrf-token': decodeURIComponent(cookies.get('csrf_token') ?? ''),
+        cookie: [...cookies].map(([name, value]) => `${name}=${value}`).join('; '),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    for (const setCookie of response.headers.getSetCookie()) {
+      const [pair] = setCookie.split(';');
+      const separator = pair.indexOf('=');
+      cookies.set(pair.slice(0, separator), pair.slice(separator + 1));
+    }
+
+    return response;
+  };
+
+  const call = async (path, body) => {
+    // Mutations need the double-submit CSRF token, any response without one hands out a cookie
+    if (!cookies.has('csrf_token')) await send('/api/auth/csrf', 'GET');
+
+    const response = await send(path, 'POST', body);
+
+    const data = await response.json();
+    if (!response.ok) throw new Error(`${path} failed with ${response.status}: ${data.detail}`);
+    return data;
+  };
+
+  await call('/api/auth/login', { email, password });
+  console.log('Signed in with password');
+
+  const creationOptions = await call('/api/auth/passkeys/register/options');
+  const { passkey } = await call('/api/auth/passkeys/register/verify', {
+    name: 'Software authenticator',
+    response: authenticator.create(creationOptions),
+  });
+  console.log(`Registered passkey #${passkey.id}`);
+
+  await call('/api/auth/logout');
+  cookies.clear();
+
+  const requestOptions = await call('/api/auth/passkeys/login/options');
+  const result = await call('/api/auth/passkeys/login/verify', {
+    response: authenticator.get(requestOptions),
+  });
+
+  console.log(result.user ? `Signed in with passkey as ${result.user.email}` : result);
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  smokeTest(process.argv.slice(2)).catch((error) => {
+    console.error(error.message);
+    process.exit(1);
+  });
+}
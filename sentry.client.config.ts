@@ -1,7 +1,8 @@
 import * as Sentry from '@sentry/nextjs';
+import { publicEnv } from '@/lib/publicEnv';
 
 Sentry.init({
-  dsn: process.env.NEXT_PUBLIC_SENTRY_DSN,
+  dsn: publicEnv.NEXT_PUBLIC_SENTRY_DSN,
 
   // Performance Monitoring
   tracesSampleRate: process.env.NODE_ENV === 'production' ? 0.1 : 1.0,
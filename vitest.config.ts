@@ -0,0 +1,26 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+// Stores and the mailer use their memory implementations, tests that need Postgres run PGlite.
+// `npm run db:migrate` runs through vite-node with this file too, for the `@` alias only.
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+  },
+  test: {
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules', '.next'],
+    // Applying every migration to a fresh PGlite database takes a few seconds
+    testTimeout: 30_000,
+    env: {
+      DATABASE_HOST: 'localhost',
+      COOKIE_SECRET: 'test-cookie-secret',
+      MFA_ENCRYPTION_KEY: 'test-mfa-encryption-key',
+      JWT_SECRET: 'test-jwt-secret',
+      JWT_REFRESH_SECRET: 'test-jwt-refresh-secret',
+      MAIL_TRANSPORT: 'memory',
+      RATE_LIMIT_STORE: 'memory',
+      IDEMPOTENCY_STORE: 'memory',
+    },
+  },
+});